@@ -0,0 +1,331 @@
+use std::collections::{HashMap, HashSet};
+use std::fs;
+use std::path::{Path, PathBuf};
+use std::sync::atomic::{AtomicBool, Ordering};
+use std::sync::{Arc, Mutex};
+use std::thread::JoinHandle;
+use std::time::{Duration, SystemTime};
+use serde::{Deserialize, Serialize};
+use tauri::menu::{Menu, MenuItem};
+use tauri::tray::{MouseButton, MouseButtonState, TrayIconBuilder, TrayIconEvent};
+use tauri::{AppHandle, Emitter, Manager};
+use tauri_plugin_notification::NotificationExt;
+
+use super::*;
+use crate::journal::now;
+
+pub const AGENT_FIX_EVENT: &str = "agent-fix";
+const TRAY_ID: &str = "agent";
+// Same polling approach as the manifest wait, shortcut folders are small
+const POLL_INTERVAL_SECS: u64 = 5;
+const HISTORY_FILE: &str = "agent-history.json";
+const MAX_HISTORY: usize = 200;
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct AgentSettings {
+    pub steamapps_path: String,
+    #[serde(default)]
+    pub extra_locations: Vec<String>,
+    #[serde(default)]
+    pub download: DownloadSettings,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct AgentRecord {
+    pub fixed_at: u64,
+    pub fix: ShortcutFix,
+}
+
+struct Watcher {
+    running: Arc<AtomicBool>,
+    thread: JoinHandle<()>,
+}
+
+// Each watcher thread gets its own flag, and a restart joins the old thread first
+#[derive(Default)]
+pub struct AgentState {
+    watcher: Mutex<Option<Watcher>>,
+    // Held for a whole start or stop, so overlapping calls can never leave an orphaned watcher
+    lifecycle: Mutex<()>,
+}
+
+impl AgentState {
+    pub fn is_running(&self) -> bool {
+        self.watcher.lock().unwrap().is_some()
+    }
+}
+
+// What a shortcut looked like the last time the agent handled it
+#[derive(Debug, Clone, Copy, PartialEq)]
+struct Seen {
+    modified: Option<SystemTime>,
+    icon_present: bool,
+}
+
+fn history_file() -> Result<PathBuf, String> {
+    Ok(get_app_data_dir()?.join(HISTORY_FILE))
+}
+
+pub fn load_history() -> Result<Vec<AgentRecord>, String> {
+    let path = history_file()?;
+    if !path.exists() {
+        return Ok(Vec::new());
+    }
+
+    let content = fs::read_to_string(&path)
+        .map_err(|e| format!("Failed to read {}: {}", path.display(), e))?;
+    serde_json::from_str(&content)
+        .map_err(|e| format!("Failed to parse {}: {}", path.display(), e))
+}
+
+fn append_history(fixes: &[ShortcutFix]) -> Result<(), String> {
+    let mut history = load_history().unwrap_or_default();
+    let fixed_at = now();
+    history.extend(fixes.iter().cloned().map(|fix| AgentRecord { fixed_at, fix }));
+    if history.len() > MAX_HISTORY {
+        history.drain(..history.len() - MAX_HISTORY);
+    }
+
+    let path = history_file()?;
+    if let Some(parent) = path.parent() {
+        fs::create_dir_all(parent)
+            .map_err(|e| format!("Failed to create {}: {}", parent.display(), e))?;
+    }
+
+    let content = serde_json::to_string_pretty(&history)
+        .map_err(|e| format!("Failed to serialize agent history: {}", e))?;
+    let temp = path.with_extension("json.tmp");
+    fs::write(&temp, content)
+        .map_err(|e| format!("Failed to write agent history: {}", e))?;
+    fs::rename(&temp, &path).map_err(|e| {
+        let _ = fs::remove_file(&temp);
+        format!("Failed to write agent history: {}", e)
+    })
+}
+
+// Cheap enough to run on every poll, the full diagnosis only runs for shortcuts that changed
+fn icon_present(path: &Path, content: &str, icons_cache: &Path) -> bool {
+    if shortcut_extension(path) == "desktop" {
+        return parse_desktop_shortcut(content)
+            .map(|shortcut| find_theme_icon(&shortcut.icon).is_some())
+            .unwrap_or(false);
+    }
+
+    parse_url_shortcut(content)
+        .map(|shortcut| icons_cache.join(&shortcut.icon_filename).exists())
+        .unwrap_or(false)
+}
+
+fn snapshot(path: &Path, icons_cache: &Path) -> Option<(Seen, String)> {
+    let content = fs::read_to_string(path).ok()?;
+    if !content.contains("steam://rungameid/") {
+        return None;
+    }
+
+    let seen = Seen {
+        modified: fs::metadata(path).and_then(|m| m.modified()).ok(),
+        icon_present: icon_present(path, &content, icons_cache),
+    };
+    Some((seen, content))
+}
+
+fn notify(app: &AppHandle, fixes: &[ShortcutFix]) {
+    let fixed: Vec<&ShortcutFix> = fixes.iter().filter(|f| f.success).collect();
+    let failed: Vec<&ShortcutFix> = fixes.iter().filter(|f| !f.success).collect();
+
+    let body = match (fixed.as_slice(), failed.as_slice()) {
+        ([fix], []) => format!("Fixed the icon of {}", fix.name),
+        (_, []) => format!("Fixed {} shortcut icons", fixed.len()),
+        ([], [fix]) => format!("Could not fix {}: {}", fix.name, fix.error.as_deref().unwrap_or("unknown error")),
+        _ => format!("Fixed {} shortcut icon(s), {} could not be fixed", fixed.len(), failed.len()),
+    };
+
+    if let Err(e) = app.notification().builder().title("Steam Shortcut Fixer").body(body).show() {
+        eprintln!("Failed to show notification: {}", e);
+    }
+}
+
+fn poll(app: &AppHandle, settings: &AgentSettings, seen: &mut HashMap<PathBuf, Seen>, first: bool) -> Result<(), String> {
+    let (steam_path, icons_cache) = icons_cache_paths()?;
+
+    // New or edited shortcuts, shortcuts whose icon just disappeared from the cache,
+    // and on the first pass anything already broken
+    let mut candidates = Vec::new();
+    let mut current = HashMap::new();
+    for (path, location) in collect_location_shortcuts(&get_shortcut_locations(&settings.extra_locations)) {
+        let Some((state, content)) = snapshot(&path, &icons_cache) else {
+            continue;
+        };
+
+        let changed = match seen.get(&path) {
+            None => !first || !state.icon_present,
+            Some(previous) => previous.modified != state.modified || (previous.icon_present && !state.icon_present),
+        };
+        if changed {
+            candidates.push((path.clone(), location, content));
+        }
+        current.insert(path, state);
+    }
+    *seen = current;
+
+    if candidates.is_empty() {
+        return Ok(());
+    }
+
+    let installed: HashSet<String> = read_installed_games(&get_steam_library_folders(&settings.steamapps_path))
+        .into_iter()
+        .map(|g| g.app_id)
+        .collect();
+
+    let pending: Vec<(PathBuf, String)> = candidates
+        .into_iter()
+        .filter(|(path, _, content)| {
+            let diagnosis = if shortcut_extension(path) == "desktop" {
+                diagnose_desktop_entry(content, &installed)
+            } else {
+                diagnose_url_shortcut(content, &icons_cache, &installed)
+            };
+            matches!(diagnosis, Some((_, ShortcutHealth::IconMissing | ShortcutHealth::IconOutsideCache, _)))
+        })
+        .map(|(path, location, _)| (path, location))
+        .collect();
+
+    if pending.is_empty() {
+        return Ok(());
+    }
+
+    let downloader = IconDownloader::new(&settings.download)?;
+    let app_info = AppInfo::new(&steam_path);
+    let changes = ChangeSet::begin(&get_backups_dir()?, "Tray Agent");
+
+    let fixes: Vec<ShortcutFix> = pending
+        .iter()
+        .map(|(path, location)| fix_shortcut_file(path, location, &downloader, &steam_path, &icons_cache, &app_info, &changes))
+        .collect();
+
+    // Remember the files as the fix left them, a failed fix is retried once the file changes again
+    for (path, _) in &pending {
+        if let Some((state, _)) = snapshot(path, &icons_cache) {
+            seen.insert(path.clone(), state);
+        }
+    }
+
+    for fix in &fixes {
+        let _ = app.emit(AGENT_FIX_EVENT, fix);
+    }
+    if let Err(e) = append_history(&fixes) {
+        eprintln!("{}", e);
+    }
+    notify(app, &fixes);
+
+    Ok(())
+}
+
+fn watch(app: AppHandle, settings: AgentSettings, running: Arc<AtomicBool>) {
+    let mut seen = HashMap::new();
+    let mut first = true;
+    // A missing Steam install fails every poll, only say so when the error changes
+    let mut last_error = None;
+
+    while running.load(Ordering::SeqCst) {
+        let error = poll(&app, &settings, &mut seen, first).err();
+        if error.is_some() && error != last_error {
+            eprintln!("Tray agent: {}", error.as_deref().unwrap_or_default());
+        }
+        last_error = error;
+        first = false;
+
+        for _ in 0..POLL_INTERVAL_SECS {
+            if !running.load(Ordering::SeqCst) {
+                return;
+            }
+            std::thread::sleep(Duration::from_secs(1));
+        }
+    }
+}
+
+pub fn show_main_window(app: &AppHandle) {
+    if let Some(window) = app.get_webview_window("main") {
+        let _ = window.show();
+        let _ = window.unminimize();
+        let _ = window.set_focus();
+    }
+}
+
+fn create_tray(app: &AppHandle) -> Result<(), String> {
+    if app.tray_by_id(TRAY_ID).is_some() {
+        return Ok(());
+    }
+
+    let show = MenuItem::with_id(app, "show", "Open Steam Shortcut Fixer", true, None::<&str>)
+        .map_err(|e| format!("Failed to create tray menu: {}", e))?;
+    let quit = MenuItem::with_id(app, "quit", "Quit", true, None::<&str>)
+        .map_err(|e| format!("Failed to create tray menu: {}", e))?;
+    let menu = Menu::with_items(app, &[&show, &quit])
+        .map_err(|e| format!("Failed to create tray menu: {}", e))?;
+
+    let mut builder = TrayIconBuilder::with_id(TRAY_ID)
+        .tooltip("Steam Shortcut Fixer - watching shortcuts")
+        .menu(&menu)
+        .show_menu_on_left_click(false)
+        .on_menu_event(|app, event| match event.id.as_ref() {
+            "show" => show_main_window(app),
+            "quit" => app.exit(0),
+            _ => {}
+        })
+        .on_tray_icon_event(|tray, event| {
+            if let TrayIconEvent::Click { button: MouseButton::Left, button_state: MouseButtonState::Up, .. } = event {
+                show_main_window(tray.app_handle());
+            }
+        });
+
+    if let Some(icon) = app.default_window_icon() {
+        builder = builder.icon(icon.clone());
+    }
+
+    builder
+        .build(app)
+        .map(|_| ())
+        .map_err(|e| format!("Failed to create tray icon: {}", e))
+}
+
+// Blocks until the thread has finished its current poll, so two watchers never overlap
+fn stop_watcher(state: &AgentState) -> bool {
+    // Taken out of the lock first, the window close handler reads it while we wait
+    let watcher = state.watcher.lock().unwrap().take();
+    let Some(watcher) = watcher else {
+        return false;
+    };
+
+    watcher.running.store(false, Ordering::SeqCst);
+    if watcher.thread.join().is_err() {
+        eprintln!("Tray agent thread panicked");
+    }
+    true
+}
+
+// A restart keeps the tray icon and only replaces the watcher thread
+pub fn start(app: &AppHandle, state: &AgentState, settings: AgentSettings) -> Result<(), String> {
+    let _lifecycle = state.lifecycle.lock().unwrap();
+    let restarted = stop_watcher(state);
+    create_tray(app)?;
+
+    let running = Arc::new(AtomicBool::new(true));
+    let thread = {
+        let app = app.clone();
+        let running = running.clone();
+        std::thread::spawn(move || watch(app, settings, running))
+    };
+    *state.watcher.lock().unwrap() = Some(Watcher { running, thread });
+
+    eprintln!("Tray agent {}", if restarted { "restarted" } else { "started" });
+    Ok(())
+}
+
+pub fn stop(app: &AppHandle, state: &AgentState) {
+    let _lifecycle = state.lifecycle.lock().unwrap();
+    if stop_watcher(state) {
+        eprintln!("Tray agent stopped");
+    }
+    app.remove_tray_by_id(TRAY_ID);
+}
@@ -0,0 +1,280 @@
+use std::collections::HashMap;
+use std::fs;
+use std::path::{Path, PathBuf};
+use std::sync::OnceLock;
+
+use crate::vdf;
+
+// The last byte of the magic is the format version
+const MAGIC_V27: u32 = 0x0756_4427;
+const MAGIC_V28: u32 = 0x0756_4428;
+// Since late 2023 keys are indices into a string table at the end of the file
+const MAGIC_V29: u32 = 0x0756_4429;
+
+// Per-app header between the size field and the KeyValues data:
+// info state, last updated, PICS token, text SHA-1, change number (and a binary SHA-1 from v28 on)
+const ENTRY_HEADER_V27: usize = 4 + 4 + 8 + 20 + 4;
+const ENTRY_HEADER_V28: usize = ENTRY_HEADER_V27 + 20;
+
+fn read_u32(bytes: &[u8], pos: usize) -> Result<u32, String> {
+    bytes.get(pos..pos + 4)
+        .map(|b| u32::from_le_bytes(b.try_into().unwrap()))
+        .ok_or_else(|| "Unexpected end of appinfo.vdf".to_string())
+}
+
+fn read_u64(bytes: &[u8], pos: usize) -> Result<u64, String> {
+    bytes.get(pos..pos + 8)
+        .map(|b| u64::from_le_bytes(b.try_into().unwrap()))
+        .ok_or_else(|| "Unexpected end of appinfo.vdf".to_string())
+}
+
+fn read_key_table(bytes: &[u8], offset: usize) -> Result<Vec<String>, String> {
+    let count = read_u32(bytes, offset)? as usize;
+    let mut keys = Vec::with_capacity(count.min(1 << 16));
+    let mut rest = bytes.get(offset + 4..).ok_or("String table offset is past the end of appinfo.vdf")?;
+
+    for _ in 0..count {
+        let len = rest.iter().position(|&b| b == 0).ok_or("Unterminated string in appinfo.vdf string table")?;
+        keys.push(String::from_utf8_lossy(&rest[..len]).to_string());
+        rest = &rest[len + 1..];
+    }
+
+    Ok(keys)
+}
+
+// What the manifests leave out: the icon hash and what kind of app it is
+#[derive(Debug, Clone, Default)]
+pub struct AppDetails {
+    pub client_icon: Option<String>,
+    // Game, Tool, Application, Config, ... with inconsistent casing
+    pub app_type: Option<String>,
+}
+
+fn client_icon(common: &vdf::Object) -> Option<String> {
+    let icon = common.get_str("clienticon")?;
+
+    // The hash becomes a file name, so never trust anything but hex
+    if !icon.is_empty() && icon.chars().all(|c| c.is_ascii_hexdigit()) {
+        Some(icon.to_lowercase())
+    } else {
+        None
+    }
+}
+
+// App ID -> details for every app Steam has metadata for
+pub fn read_app_details(path: &Path) -> Result<HashMap<String, AppDetails>, String> {
+    let bytes = fs::read(path)
+        .map_err(|e| format!("Failed to read {}: {}", path.display(), e))?;
+
+    let (entry_header, mut pos, end, keys) = match read_u32(&bytes, 0)? {
+        MAGIC_V27 => (ENTRY_HEADER_V27, 8, bytes.len(), None),
+        MAGIC_V28 => (ENTRY_HEADER_V28, 8, bytes.len(), None),
+        MAGIC_V29 => {
+            let offset = read_u64(&bytes, 8)? as usize;
+            (ENTRY_HEADER_V28, 16, offset.min(bytes.len()), Some(read_key_table(&bytes, offset)?))
+        }
+        other => return Err(format!("Unsupported appinfo.vdf version 0x{:08x}", other)),
+    };
+
+    let mut apps = HashMap::new();
+
+    while pos + 8 <= end {
+        let app_id = read_u32(&bytes, pos)?;
+        if app_id == 0 {
+            break;
+        }
+
+        let size = read_u32(&bytes, pos + 4)? as usize;
+        let data_start = pos + 8;
+        let data_end = data_start
+            .checked_add(size)
+            .filter(|&data_end| data_end <= end)
+            .ok_or_else(|| format!("Entry for app {} runs past the end of appinfo.vdf", app_id))?;
+        pos = data_end;
+
+        if size < entry_header {
+            continue;
+        }
+
+        let data = &bytes[data_start + entry_header..data_end];
+        let parsed = match &keys {
+            Some(keys) => vdf::parse_binary_with_keys(data, keys),
+            None => vdf::parse_binary(data),
+        };
+
+        match parsed {
+            Ok(root) => {
+                if let Some(common) = root.get_obj("appinfo").and_then(|appinfo| appinfo.get_obj("common")) {
+                    let details = AppDetails {
+                        client_icon: client_icon(common),
+                        app_type: common.get_str("type").map(str::to_string),
+                    };
+                    apps.insert(app_id.to_string(), details);
+                }
+            }
+            Err(e) => eprintln!("Skipping appinfo entry for app {}: {}", app_id, e),
+        }
+    }
+
+    Ok(apps)
+}
+
+// appinfo.vdf runs to tens of megabytes, so it is only read the first time something is looked up
+pub struct AppInfo {
+    path: PathBuf,
+    apps: OnceLock<HashMap<String, AppDetails>>,
+}
+
+impl AppInfo {
+    pub fn new(steam_path: &Path) -> Self {
+        AppInfo {
+            path: steam_path.join("appcache").join("appinfo.vdf"),
+            apps: OnceLock::new(),
+        }
+    }
+
+    fn details(&self, app_id: &str) -> Option<&AppDetails> {
+        self.apps
+            .get_or_init(|| match read_app_details(&self.path) {
+                Ok(apps) => {
+                    eprintln!("Read {} apps from {}", apps.len(), self.path.display());
+                    apps
+                }
+                Err(e) => {
+                    eprintln!("Could not read app info: {}", e);
+                    HashMap::new()
+                }
+            })
+            .get(app_id)
+    }
+
+    pub fn client_icon(&self, app_id: &str) -> Option<String> {
+        self.details(app_id)?.client_icon.clone()
+    }
+
+    pub fn app_type(&self, app_id: &str) -> Option<&str> {
+        self.details(app_id)?.app_type.as_deref()
+    }
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    const KEYS: [&str; 4] = ["appinfo", "common", "clienticon", "type"];
+
+    // Binary KeyValues for one app, keys written inline or as string table indices
+    fn app_data(indexed: bool, client_icon: &str, app_type: &str) -> Vec<u8> {
+        let key = |out: &mut Vec<u8>, name: &str| {
+            if indexed {
+                let index = KEYS.iter().position(|k| *k == name).unwrap() as u32;
+                out.extend_from_slice(&index.to_le_bytes());
+            } else {
+                out.extend_from_slice(name.as_bytes());
+                out.push(0);
+            }
+        };
+
+        let mut out = Vec::new();
+        out.push(0x00);
+        key(&mut out, "appinfo");
+        out.push(0x00);
+        key(&mut out, "common");
+        for (name, value) in [("clienticon", client_icon), ("type", app_type)] {
+            out.push(0x01);
+            key(&mut out, name);
+            out.extend_from_slice(value.as_bytes());
+            out.push(0);
+        }
+        out.extend_from_slice(&[0x08, 0x08, 0x08]);
+        out
+    }
+
+    fn appinfo_file(magic: u32) -> Vec<u8> {
+        let (entry_header, indexed) = match magic {
+            MAGIC_V27 => (ENTRY_HEADER_V27, false),
+            MAGIC_V28 => (ENTRY_HEADER_V28, false),
+            _ => (ENTRY_HEADER_V28, true),
+        };
+
+        let mut out = Vec::new();
+        out.extend_from_slice(&magic.to_le_bytes());
+        // Universe
+        out.extend_from_slice(&1u32.to_le_bytes());
+        if indexed {
+            // String table offset, patched below
+            out.extend_from_slice(&0u64.to_le_bytes());
+        }
+
+        for (app_id, icon, app_type) in [(400u32, "ABCDEF0123", "Game"), (228980, "../../evil", "Tool")] {
+            let data = app_data(indexed, icon, app_type);
+            out.extend_from_slice(&app_id.to_le_bytes());
+            out.extend_from_slice(&((entry_header + data.len()) as u32).to_le_bytes());
+            out.extend(std::iter::repeat(0u8).take(entry_header));
+            out.extend_from_slice(&data);
+        }
+        out.extend_from_slice(&0u32.to_le_bytes());
+
+        if indexed {
+            let offset = out.len() as u64;
+            out[8..16].copy_from_slice(&offset.to_le_bytes());
+            out.extend_from_slice(&(KEYS.len() as u32).to_le_bytes());
+            for key in KEYS {
+                out.extend_from_slice(key.as_bytes());
+                out.push(0);
+            }
+        }
+        out
+    }
+
+    fn read(name: &str, bytes: &[u8]) -> Result<HashMap<String, AppDetails>, String> {
+        let path = std::env::temp_dir().join(format!("ssf-appinfo-{}-{}.vdf", std::process::id(), name));
+        fs::write(&path, bytes).unwrap();
+        let result = read_app_details(&path);
+        let _ = fs::remove_file(&path);
+        result
+    }
+
+    fn assert_fixture_apps(apps: &HashMap<String, AppDetails>) {
+        assert_eq!(apps["400"].client_icon.as_deref(), Some("abcdef0123"));
+        assert_eq!(apps["400"].app_type.as_deref(), Some("Game"));
+        // Never a file name unless it is a plain hex hash
+        assert_eq!(apps["228980"].client_icon, None);
+        assert_eq!(apps["228980"].app_type.as_deref(), Some("Tool"));
+    }
+
+    #[test]
+    fn reads_v27() {
+        assert_fixture_apps(&read("v27", &appinfo_file(MAGIC_V27)).unwrap());
+    }
+
+    #[test]
+    fn reads_v28() {
+        assert_fixture_apps(&read("v28", &appinfo_file(MAGIC_V28)).unwrap());
+    }
+
+    #[test]
+    fn reads_v29_string_table() {
+        assert_fixture_apps(&read("v29", &appinfo_file(MAGIC_V29)).unwrap());
+    }
+
+    #[test]
+    fn truncated_file_is_an_error() {
+        let bytes = appinfo_file(MAGIC_V28);
+        assert!(read("truncated", &bytes[..bytes.len() / 2]).is_err());
+        assert!(read("header", &bytes[..2]).is_err());
+
+        // The string table offset points past the end
+        let mut bytes = appinfo_file(MAGIC_V29);
+        let len = bytes.len();
+        bytes.truncate(len - 10);
+        assert!(read("table", &bytes).is_err());
+    }
+
+    #[test]
+    fn unknown_version_is_an_error() {
+        let mut bytes = appinfo_file(MAGIC_V28);
+        bytes[0] = 0x26;
+        assert!(read("version", &bytes).unwrap_err().starts_with("Unsupported appinfo.vdf version"));
+    }
+}
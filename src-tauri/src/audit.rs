@@ -0,0 +1,203 @@
+use std::collections::{HashMap, HashSet};
+use std::fs;
+use std::path::{Path, PathBuf};
+use serde::Serialize;
+
+use crate::backup::ChangeSet;
+use crate::vdf;
+
+// Sits next to common/ so moving a folder in is a rename, never a copy across drives
+pub const QUARANTINE_DIR: &str = "shortcut-fixer-quarantine";
+
+#[derive(Debug, Serialize, Clone, Copy, PartialEq)]
+#[serde(rename_all = "snake_case")]
+pub enum AuditKind {
+    // A folder under common/ that no manifest points at
+    OrphanedFolder,
+    // A manifest whose installdir is gone
+    MissingFolder,
+    // The same app ID has a manifest in more than one library
+    DuplicateAppId,
+}
+
+#[derive(Debug, Serialize, Clone)]
+pub struct AuditEntry {
+    pub kind: AuditKind,
+    pub app_id: String,
+    pub name: String,
+    pub library_path: String,
+    // The folder for orphans, the manifest otherwise
+    pub path: String,
+    pub size_on_disk: u64,
+    pub detail: String,
+}
+
+struct ManifestInfo {
+    app_id: String,
+    name: String,
+    install_dir: String,
+    path: PathBuf,
+}
+
+fn read_manifests(library: &Path) -> Vec<ManifestInfo> {
+    fs::read_dir(library)
+        .into_iter()
+        .flatten()
+        .flatten()
+        .map(|entry| entry.path())
+        .filter(|path| {
+            path.file_name()
+                .map(|n| n.to_string_lossy())
+                .map(|n| n.starts_with("appmanifest_") && n.ends_with(".acf"))
+                .unwrap_or(false)
+        })
+        .filter_map(|path| {
+            let root = vdf::parse_file(&path).ok()?;
+            let app_state = root.get_obj("AppState")?;
+            Some(ManifestInfo {
+                app_id: app_state.get_str("appid").unwrap_or_default().to_string(),
+                name: app_state.get_str("name").unwrap_or_default().to_string(),
+                install_dir: app_state.get_str("installdir").unwrap_or_default().to_string(),
+                path,
+            })
+        })
+        .collect()
+}
+
+// Symlinks are counted as themselves, never followed
+pub fn folder_size(path: &Path) -> u64 {
+    fs::read_dir(path)
+        .into_iter()
+        .flatten()
+        .flatten()
+        .map(|entry| match entry.file_type() {
+            Ok(file_type) if file_type.is_dir() => folder_size(&entry.path()),
+            Ok(_) => entry.metadata().map(|m| m.len()).unwrap_or(0),
+            Err(_) => 0,
+        })
+        .sum()
+}
+
+pub fn audit_libraries(libraries: &[PathBuf]) -> Vec<AuditEntry> {
+    let mut entries = Vec::new();
+    let mut manifest_libraries: HashMap<String, Vec<(ManifestInfo, PathBuf)>> = HashMap::new();
+
+    for library in libraries {
+        let common = library.join("common");
+        let manifests = read_manifests(library);
+
+        let referenced: HashSet<String> = manifests
+            .iter()
+            .map(|m| m.install_dir.to_lowercase())
+            .collect();
+
+        for folder in fs::read_dir(&common).into_iter().flatten().flatten() {
+            let path = folder.path();
+            let name = folder.file_name().to_string_lossy().to_string();
+            if !path.is_dir() || referenced.contains(&name.to_lowercase()) {
+                continue;
+            }
+
+            let detail = if name.ends_with(super::TEMP_RENAME_SUFFIX) {
+                "Left behind by an unfinished Deep Repair".to_string()
+            } else {
+                "No manifest in this library uses this folder".to_string()
+            };
+
+            entries.push(AuditEntry {
+                kind: AuditKind::OrphanedFolder,
+                app_id: String::new(),
+                size_on_disk: folder_size(&path),
+                name,
+                library_path: library.to_string_lossy().to_string(),
+                path: path.to_string_lossy().to_string(),
+                detail,
+            });
+        }
+
+        for manifest in manifests {
+            if !manifest.install_dir.is_empty() && !common.join(&manifest.install_dir).exists() {
+                entries.push(AuditEntry {
+                    kind: AuditKind::MissingFolder,
+                    app_id: manifest.app_id.clone(),
+                    name: manifest.name.clone(),
+                    library_path: library.to_string_lossy().to_string(),
+                    path: manifest.path.to_string_lossy().to_string(),
+                    size_on_disk: 0,
+                    detail: format!("common/{} does not exist", manifest.install_dir),
+                });
+            }
+
+            if !manifest.app_id.is_empty() {
+                manifest_libraries
+                    .entry(manifest.app_id.clone())
+                    .or_default()
+                    .push((manifest, library.clone()));
+            }
+        }
+    }
+
+    for copies in manifest_libraries.values().filter(|copies| copies.len() > 1) {
+        for (manifest, library) in copies {
+            let others: Vec<String> = copies
+                .iter()
+                .filter(|(_, other)| other != library)
+                .map(|(_, other)| other.to_string_lossy().to_string())
+                .collect();
+
+            entries.push(AuditEntry {
+                kind: AuditKind::DuplicateAppId,
+                app_id: manifest.app_id.clone(),
+                name: manifest.name.clone(),
+                library_path: library.to_string_lossy().to_string(),
+                path: manifest.path.to_string_lossy().to_string(),
+                size_on_disk: 0,
+                detail: format!("Also installed in {}", others.join(", ")),
+            });
+        }
+    }
+
+    entries
+}
+
+// Shared by folders and shortcuts, "Name (2)" and "Name (2).url" the way Explorer numbers copies
+pub fn quarantine_target(quarantine: &Path, source: &Path) -> PathBuf {
+    let name = source.file_name().map(|n| n.to_string_lossy().to_string()).unwrap_or_default();
+    let (stem, extension) = match (source.is_file(), source.file_stem(), source.extension()) {
+        (true, Some(stem), Some(extension)) => (stem.to_string_lossy().to_string(), format!(".{}", extension.to_string_lossy())),
+        _ => (name.clone(), String::new()),
+    };
+
+    let mut target = quarantine.join(&name);
+    let mut attempt = 1;
+    while target.exists() {
+        attempt += 1;
+        target = quarantine.join(format!("{} ({}){}", stem, attempt, extension));
+    }
+    target
+}
+
+pub fn quarantine_folder(folder: &Path, changes: &ChangeSet) -> Result<PathBuf, String> {
+    let common = folder.parent().ok_or("Invalid folder path")?;
+    if !common.file_name().map(|n| n.eq_ignore_ascii_case("common")).unwrap_or(false) {
+        return Err(format!("{} is not inside a library's common folder", folder.display()));
+    }
+
+    let quarantine = common
+        .parent()
+        .ok_or("Invalid library path")?
+        .join(QUARANTINE_DIR);
+    fs::create_dir_all(&quarantine)
+        .map_err(|e| format!("Failed to create quarantine folder: {}", e))?;
+
+    if folder.file_name().is_none() {
+        return Err("Invalid folder path".to_string());
+    }
+    let target = quarantine_target(&quarantine, folder);
+
+    changes.before_rename(folder, &target)?;
+    fs::rename(folder, &target)
+        .map_err(|e| format!("Failed to move {} to quarantine: {}", folder.display(), e))?;
+
+    Ok(target)
+}
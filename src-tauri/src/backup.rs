@@ -0,0 +1,285 @@
+use std::fs;
+use std::path::{Path, PathBuf};
+use std::sync::atomic::{AtomicU32, Ordering};
+use std::sync::Mutex;
+use std::time::{SystemTime, UNIX_EPOCH};
+use serde::{Deserialize, Serialize};
+
+use crate::journal::now;
+
+// One change-set per run (a Quick Fix, a Deep Repair, ...), stored as
+// <backups>/<run id>/changes.json with copies of overwritten files next to it
+const MANIFEST_FILE: &str = "changes.json";
+const FILES_DIR: &str = "files";
+
+static RUN_COUNTER: AtomicU32 = AtomicU32::new(0);
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+#[serde(tag = "action", rename_all = "snake_case")]
+pub enum Change {
+    // Did not exist before, undo deletes it
+    Created { path: String },
+    Modified { path: String, backup: String },
+    Renamed { from: String, to: String },
+    // Undo copies the backup back into place
+    Deleted { path: String, backup: String },
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct ChangeSetInfo {
+    pub id: String,
+    pub label: String,
+    pub created_at: u64,
+    pub changes: Vec<Change>,
+    #[serde(default)]
+    pub undone_at: Option<u64>,
+    // Bytes on disk, filled in when listing
+    #[serde(default, skip_deserializing)]
+    pub size: u64,
+}
+
+#[derive(Debug, Serialize, Clone)]
+pub struct UndoReport {
+    pub reverted: usize,
+    pub errors: Vec<String>,
+}
+
+// Shared by the Quick Fix workers, so the manifest sits behind a lock
+pub struct ChangeSet {
+    dir: PathBuf,
+    info: Mutex<ChangeSetInfo>,
+}
+
+fn read_info(dir: &Path) -> Result<ChangeSetInfo, String> {
+    let path = dir.join(MANIFEST_FILE);
+    let content = fs::read_to_string(&path)
+        .map_err(|e| format!("Failed to read {}: {}", path.display(), e))?;
+    serde_json::from_str(&content)
+        .map_err(|e| format!("Failed to parse {}: {}", path.display(), e))
+}
+
+fn write_info(dir: &Path, info: &ChangeSetInfo) -> Result<(), String> {
+    let content = serde_json::to_string_pretty(info)
+        .map_err(|e| format!("Failed to serialize change-set: {}", e))?;
+
+    let target = dir.join(MANIFEST_FILE);
+    let temp = target.with_extension("json.tmp");
+    fs::write(&temp, content)
+        .map_err(|e| format!("Failed to write change-set: {}", e))?;
+    fs::rename(&temp, &target).map_err(|e| {
+        let _ = fs::remove_file(&temp);
+        format!("Failed to write change-set: {}", e)
+    })
+}
+
+impl ChangeSet {
+    // Nothing is written until the first change, runs that touch nothing leave no trace
+    pub fn begin(backups_dir: &Path, label: &str) -> Self {
+        let millis = SystemTime::now()
+            .duration_since(UNIX_EPOCH)
+            .map(|d| d.as_millis())
+            .unwrap_or(0);
+        let id = format!("{}-{}", millis, RUN_COUNTER.fetch_add(1, Ordering::SeqCst));
+
+        ChangeSet {
+            dir: backups_dir.join(&id),
+            info: Mutex::new(ChangeSetInfo {
+                id,
+                label: label.to_string(),
+                created_at: now(),
+                changes: Vec::new(),
+                undone_at: None,
+                size: 0,
+            }),
+        }
+    }
+
+    // Picks up a run that spans several commands, such as a Deep Repair
+    pub fn resume(backups_dir: &Path, id: &str, label: &str) -> Self {
+        let dir = backups_dir.join(id);
+        match read_info(&dir) {
+            Ok(info) => ChangeSet { dir, info: Mutex::new(info) },
+            Err(_) => ChangeSet::begin(backups_dir, label),
+        }
+    }
+
+    pub fn id(&self) -> String {
+        self.info.lock().unwrap().id.clone()
+    }
+
+    fn push(&self, info: &mut ChangeSetInfo, change: Change) -> Result<(), String> {
+        fs::create_dir_all(&self.dir)
+            .map_err(|e| format!("Failed to create backup folder: {}", e))?;
+        info.changes.push(change);
+        write_info(&self.dir, info)
+    }
+
+    // Call before creating or overwriting a file
+    pub fn before_write(&self, path: &Path) -> Result<(), String> {
+        let mut info = self.info.lock().unwrap();
+
+        if !path.is_file() {
+            return self.push(&mut info, Change::Created { path: path.to_string_lossy().to_string() });
+        }
+
+        let backup = self.copy_to_backup(&info, path)?;
+        self.push(&mut info, Change::Modified {
+            path: path.to_string_lossy().to_string(),
+            backup,
+        })
+    }
+
+    pub fn before_delete(&self, path: &Path) -> Result<(), String> {
+        let mut info = self.info.lock().unwrap();
+        let backup = self.copy_to_backup(&info, path)?;
+        self.push(&mut info, Change::Deleted {
+            path: path.to_string_lossy().to_string(),
+            backup,
+        })
+    }
+
+    fn copy_to_backup(&self, info: &ChangeSetInfo, path: &Path) -> Result<String, String> {
+        let files_dir = self.dir.join(FILES_DIR);
+        fs::create_dir_all(&files_dir)
+            .map_err(|e| format!("Failed to create backup folder: {}", e))?;
+
+        let file_name = path.file_name().and_then(|n| n.to_str()).unwrap_or("file");
+        let backup = files_dir.join(format!("{}_{}", info.changes.len(), file_name));
+        fs::copy(path, &backup)
+            .map_err(|e| format!("Failed to back up {}: {}", path.display(), e))?;
+
+        Ok(backup.to_string_lossy().to_string())
+    }
+
+    pub fn before_rename(&self, from: &Path, to: &Path) -> Result<(), String> {
+        let mut info = self.info.lock().unwrap();
+        self.push(&mut info, Change::Renamed {
+            from: from.to_string_lossy().to_string(),
+            to: to.to_string_lossy().to_string(),
+        })
+    }
+}
+
+fn dir_size(dir: &Path) -> u64 {
+    fs::read_dir(dir)
+        .into_iter()
+        .flatten()
+        .flatten()
+        .map(|entry| match entry.metadata() {
+            Ok(meta) if meta.is_dir() => dir_size(&entry.path()),
+            Ok(meta) => meta.len(),
+            Err(_) => 0,
+        })
+        .sum()
+}
+
+// Newest first
+pub fn list(backups_dir: &Path) -> Vec<ChangeSetInfo> {
+    let mut runs: Vec<ChangeSetInfo> = fs::read_dir(backups_dir)
+        .into_iter()
+        .flatten()
+        .flatten()
+        .filter_map(|entry| {
+            let dir = entry.path();
+            let mut info = read_info(&dir).ok()?;
+            info.size = dir_size(&dir);
+            Some(info)
+        })
+        .collect();
+
+    runs.sort_by(|a, b| b.created_at.cmp(&a.created_at).then(b.id.cmp(&a.id)));
+    runs
+}
+
+// Reverts a run newest change first. Undo never overwrites something that is in the way
+pub fn undo(backups_dir: &Path, id: &str) -> Result<UndoReport, String> {
+    let dir = backups_dir.join(id);
+    let mut info = read_info(&dir)?;
+
+    if info.undone_at.is_some() {
+        return Err(format!("{} was already undone", info.label));
+    }
+
+    let mut report = UndoReport { reverted: 0, errors: Vec::new() };
+    let mut failed = Vec::new();
+
+    for change in info.changes.iter().rev() {
+        let result = match change {
+            Change::Created { path } => {
+                if Path::new(path).is_file() {
+                    fs::remove_file(path).map_err(|e| format!("Failed to remove {}: {}", path, e))
+                } else {
+                    Ok(())
+                }
+            }
+            Change::Modified { path, backup } => fs::copy(backup, path)
+                .map(|_| ())
+                .map_err(|e| format!("Failed to restore {}: {}", path, e)),
+            Change::Renamed { from, to } => {
+                if !Path::new(to).exists() {
+                    // The rename never happened or was already reverted
+                    Ok(())
+                } else if Path::new(from).exists() {
+                    Err(format!("{} already exists, refusing to overwrite it", from))
+                } else {
+                    fs::rename(to, from).map_err(|e| format!("Failed to rename {} back: {}", to, e))
+                }
+            }
+            Change::Deleted { path, backup } => {
+                if Path::new(path).exists() {
+                    Err(format!("{} already exists, refusing to overwrite it", path))
+                } else {
+                    fs::copy(backup, path)
+                        .map(|_| ())
+                        .map_err(|e| format!("Failed to restore {}: {}", path, e))
+                }
+            }
+        };
+
+        match result {
+            Ok(()) => report.reverted += 1,
+            Err(e) => {
+                report.errors.push(e);
+                failed.push(change.clone());
+            }
+        }
+    }
+
+    // A partial undo keeps only what failed, so it can be retried once the cause is fixed
+    if failed.is_empty() {
+        info.undone_at = Some(now());
+    } else {
+        failed.reverse();
+        info.changes = failed;
+    }
+    write_info(&dir, &info)?;
+
+    eprintln!("Undid {}: {} reverted, {} failed", info.label, report.reverted, report.errors.len());
+    Ok(report)
+}
+
+// A limit of 0 disables that check
+pub fn prune(backups_dir: &Path, max_age_days: u64, max_size_mb: u64) -> usize {
+    let mut runs = list(backups_dir);
+    let mut removed = 0;
+
+    let cutoff = now().saturating_sub(max_age_days * 24 * 60 * 60);
+    let mut total: u64 = runs.iter().map(|r| r.size).sum();
+    let max_size = max_size_mb * 1024 * 1024;
+
+    // Oldest runs go first
+    while let Some(run) = runs.pop() {
+        let expired = max_age_days > 0 && run.created_at < cutoff;
+        let over_size = max_size_mb > 0 && total > max_size;
+        if !expired && !over_size {
+            break;
+        }
+
+        if fs::remove_dir_all(backups_dir.join(&run.id)).is_ok() {
+            total = total.saturating_sub(run.size);
+            removed += 1;
+        }
+    }
+
+    removed
+}
@@ -0,0 +1,200 @@
+use std::collections::HashMap;
+use std::fs;
+use std::io;
+use std::path::Path;
+use serde::{Deserialize, Serialize};
+
+use super::{ShortcutDiagnosis, ShortcutHealth};
+use crate::audit::quarantine_target;
+use crate::backup::ChangeSet;
+
+#[derive(Debug, Serialize, Clone, Copy, PartialEq)]
+#[serde(rename_all = "snake_case")]
+pub enum CleanupReason {
+    // Points at a game that is not installed in any library
+    Dead,
+    // One of several shortcuts for the same game
+    Duplicate,
+}
+
+#[derive(Debug, Deserialize, Clone, Copy, PartialEq)]
+#[serde(rename_all = "snake_case")]
+pub enum CleanupAction {
+    Delete,
+    Quarantine,
+}
+
+#[derive(Debug, Serialize, Clone)]
+pub struct CleanupGroup {
+    pub game_id: String,
+    pub reason: CleanupReason,
+    pub shortcuts: Vec<ShortcutDiagnosis>,
+    // Suggested survivor of a duplicate group, None for dead shortcuts
+    pub keep: Option<String>,
+}
+
+#[derive(Debug, Serialize, Clone)]
+pub struct CleanupResult {
+    pub path: String,
+    pub success: bool,
+    pub error: Option<String>,
+}
+
+// Groups keep the order shortcuts were found in, so the primary Desktop comes before
+// OneDrive and the Start Menu and is the one kept when all of them are healthy
+pub fn plan(diagnoses: Vec<ShortcutDiagnosis>) -> Vec<CleanupGroup> {
+    let mut order = Vec::new();
+    let mut by_game: HashMap<String, Vec<ShortcutDiagnosis>> = HashMap::new();
+
+    for diagnosis in diagnoses {
+        if diagnosis.game_id.is_empty() {
+            continue;
+        }
+        if !by_game.contains_key(&diagnosis.game_id) {
+            order.push(diagnosis.game_id.clone());
+        }
+        by_game.entry(diagnosis.game_id.clone()).or_default().push(diagnosis);
+    }
+
+    order
+        .into_iter()
+        .filter_map(|game_id| {
+            let shortcuts = by_game.remove(&game_id)?;
+
+            if shortcuts.iter().any(|d| d.health == ShortcutHealth::NotInstalled) {
+                return Some(CleanupGroup { game_id, reason: CleanupReason::Dead, shortcuts, keep: None });
+            }
+
+            if shortcuts.len() < 2 {
+                return None;
+            }
+
+            let keep = shortcuts
+                .iter()
+                .find(|d| d.health == ShortcutHealth::Healthy)
+                .unwrap_or(&shortcuts[0])
+                .path
+                .clone();
+
+            Some(CleanupGroup { game_id, reason: CleanupReason::Duplicate, shortcuts, keep: Some(keep) })
+        })
+        .collect()
+}
+
+// Only ever touches files that still are Steam shortcuts, whatever path the caller sends
+fn check_steam_shortcut(path: &Path) -> Result<(), String> {
+    let content = fs::read_to_string(path)
+        .map_err(|e| format!("Failed to read {}: {}", path.display(), e))?;
+
+    if content.contains("steam://rungameid/") {
+        Ok(())
+    } else {
+        Err(format!("{} is not a Steam shortcut", path.display()))
+    }
+}
+
+pub fn remove_shortcut(path: &Path, action: CleanupAction, quarantine: &Path, changes: &ChangeSet) -> Result<(), String> {
+    check_steam_shortcut(path)?;
+
+    match action {
+        CleanupAction::Delete => {
+            changes.before_delete(path)?;
+            fs::remove_file(path)
+                .map_err(|e| format!("Failed to delete {}: {}", path.display(), e))
+        }
+        CleanupAction::Quarantine => {
+            fs::create_dir_all(quarantine)
+                .map_err(|e| format!("Failed to create quarantine folder: {}", e))?;
+
+            let target = quarantine_target(quarantine, path);
+            changes.before_rename(path, &target)?;
+            match fs::rename(path, &target) {
+                Ok(()) => Ok(()),
+                // A redirected Desktop or OneDrive folder can sit on another drive than the app data
+                Err(e) if e.kind() == io::ErrorKind::CrossesDevices => copy_to_quarantine(path, &target, changes),
+                Err(e) => Err(format!("Failed to move {} to quarantine: {}", path.display(), e)),
+            }
+        }
+    }
+}
+
+// Undo removes the copy and restores the original from its backup
+fn copy_to_quarantine(path: &Path, target: &Path, changes: &ChangeSet) -> Result<(), String> {
+    changes.before_write(target)?;
+    fs::copy(path, target)
+        .map_err(|e| format!("Failed to copy {} to quarantine: {}", path.display(), e))?;
+
+    changes.before_delete(path)?;
+    fs::remove_file(path)
+        .map_err(|e| format!("Failed to remove {} after copying it to quarantine: {}", path.display(), e))
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    fn diagnosis(game_id: &str, path: &str, health: ShortcutHealth) -> ShortcutDiagnosis {
+        ShortcutDiagnosis {
+            name: format!("Game {}", game_id),
+            path: path.to_string(),
+            game_id: game_id.to_string(),
+            location: "Desktop".to_string(),
+            health,
+            detail: String::new(),
+        }
+    }
+
+    fn paths(group: &CleanupGroup) -> Vec<&str> {
+        group.shortcuts.iter().map(|d| d.path.as_str()).collect()
+    }
+
+    #[test]
+    fn uninstalled_game_is_a_dead_group() {
+        let groups = plan(vec![
+            diagnosis("400", "desktop/Portal.url", ShortcutHealth::NotInstalled),
+            diagnosis("400", "onedrive/Portal.url", ShortcutHealth::NotInstalled),
+        ]);
+
+        assert_eq!(groups.len(), 1);
+        assert_eq!(groups[0].reason, CleanupReason::Dead);
+        assert_eq!(groups[0].keep, None);
+        assert_eq!(paths(&groups[0]), vec!["desktop/Portal.url", "onedrive/Portal.url"]);
+    }
+
+    #[test]
+    fn duplicates_keep_the_first_healthy_shortcut() {
+        let groups = plan(vec![
+            diagnosis("620", "desktop/Portal 2.url", ShortcutHealth::IconMissing),
+            diagnosis("620", "onedrive/Portal 2.url", ShortcutHealth::Healthy),
+            diagnosis("620", "start/Portal 2.url", ShortcutHealth::Healthy),
+        ]);
+
+        assert_eq!(groups.len(), 1);
+        assert_eq!(groups[0].reason, CleanupReason::Duplicate);
+        assert_eq!(groups[0].keep.as_deref(), Some("onedrive/Portal 2.url"));
+    }
+
+    #[test]
+    fn duplicates_without_a_healthy_shortcut_keep_the_first() {
+        let groups = plan(vec![
+            diagnosis("620", "desktop/Portal 2.url", ShortcutHealth::IconMissing),
+            diagnosis("620", "start/Portal 2.url", ShortcutHealth::IconOutsideCache),
+        ]);
+
+        assert_eq!(groups[0].keep.as_deref(), Some("desktop/Portal 2.url"));
+    }
+
+    #[test]
+    fn single_and_unidentified_shortcuts_are_left_alone() {
+        let groups = plan(vec![
+            diagnosis("", "desktop/broken.url", ShortcutHealth::Malformed),
+            diagnosis("", "start/broken.url", ShortcutHealth::Malformed),
+            diagnosis("400", "desktop/Portal.url", ShortcutHealth::Healthy),
+            diagnosis("70", "desktop/Half-Life.url", ShortcutHealth::NotInstalled),
+        ]);
+
+        assert_eq!(groups.len(), 1);
+        assert_eq!(groups[0].game_id, "70");
+        assert_eq!(groups[0].reason, CleanupReason::Dead);
+    }
+}
@@ -0,0 +1,411 @@
+use std::sync::atomic::AtomicBool;
+use serde::Serialize;
+
+use super::*;
+
+// Exit codes scripts can branch on
+const EXIT_OK: i32 = 0;
+const EXIT_ERROR: i32 = 1;
+const EXIT_USAGE: i32 = 2;
+// Shortcuts still need repair, or some of them could not be fixed
+const EXIT_ISSUES: i32 = 3;
+
+const USAGE: &str = "Usage: steam-shortcut-fixer <command> [options]
+
+Commands:
+  scan           List installed games and their shortcut health
+  diagnose       Check every Steam shortcut without changing anything
+  quick-fix      Repair shortcuts with a missing or misplaced icon
+  cleanup-temp   Rename leftover *_temp_rename folders back
+
+Options:
+  --steam <path>       Steam install to use when several are found
+  --steamapps <path>   Steam library to start from (defaults to the Steam install)
+  --location <path>    Extra shortcut folder to scan, can be repeated
+  --json               Print results as JSON
+  --dry-run            Report what would change without writing anything
+  -h, --help           Show this help
+
+Exit codes: 0 ok, 1 error, 2 bad arguments, 3 shortcuts need repair or failed to fix";
+
+#[derive(Debug, Clone, Copy, PartialEq)]
+enum CliCommand {
+    Scan,
+    Diagnose,
+    QuickFix,
+    CleanupTemp,
+}
+
+struct CliOptions {
+    command: CliCommand,
+    steam: Option<String>,
+    steamapps: Option<String>,
+    locations: Vec<String>,
+    json: bool,
+    dry_run: bool,
+}
+
+#[derive(Serialize)]
+struct CleanupReport {
+    dry_run: bool,
+    folders: Vec<String>,
+}
+
+#[derive(Serialize)]
+struct QuickFixReport {
+    dry_run: bool,
+    fixes: Vec<ShortcutFix>,
+    // Only filled in for a dry run
+    pending: Vec<ShortcutDiagnosis>,
+}
+
+const CLI_FLAGS: &[&str] = &["--steam", "--steamapps", "--location", "--json", "--dry-run", "-h", "--help"];
+
+fn parse_command(arg: &str) -> Option<CliCommand> {
+    match arg {
+        "scan" => Some(CliCommand::Scan),
+        "diagnose" => Some(CliCommand::Diagnose),
+        "quick-fix" => Some(CliCommand::QuickFix),
+        "cleanup-temp" => Some(CliCommand::CleanupTemp),
+        _ => None,
+    }
+}
+
+// Launchers, file associations and the OS pass arguments of their own, those still open the window
+fn wants_cli(args: &[String]) -> bool {
+    args.first().and_then(|arg| parse_command(arg)).is_some()
+        || args.iter().any(|arg| CLI_FLAGS.contains(&arg.as_str()))
+}
+
+fn parse_args(args: &[String]) -> Result<CliOptions, String> {
+    let mut iter = args.iter();
+
+    let command = match iter.next().map(String::as_str) {
+        Some(arg) => parse_command(arg).ok_or_else(|| format!("Unknown command: {}", arg))?,
+        None => return Err("Missing command".to_string()),
+    };
+
+    let mut options = CliOptions {
+        command,
+        steam: None,
+        steamapps: None,
+        locations: Vec::new(),
+        json: false,
+        dry_run: false,
+    };
+
+    while let Some(arg) = iter.next() {
+        match arg.as_str() {
+            "--steam" => {
+                options.steam = Some(iter.next().ok_or("--steam needs a path")?.clone());
+            }
+            "--steamapps" => {
+                options.steamapps = Some(iter.next().ok_or("--steamapps needs a path")?.clone());
+            }
+            "--location" => {
+                options.locations.push(iter.next().ok_or("--location needs a path")?.clone());
+            }
+            "--json" => options.json = true,
+            "--dry-run" => options.dry_run = true,
+            other => return Err(format!("Unknown option: {}", other)),
+        }
+    }
+
+    Ok(options)
+}
+
+// The release build is a GUI-subsystem binary, so borrow the console of whoever started it
+#[cfg(target_os = "windows")]
+fn attach_parent_console() {
+    const ATTACH_PARENT_PROCESS: u32 = 0xFFFF_FFFF;
+
+    extern "system" {
+        fn AttachConsole(process_id: u32) -> i32;
+    }
+
+    unsafe {
+        AttachConsole(ATTACH_PARENT_PROCESS);
+    }
+}
+
+#[cfg(not(target_os = "windows"))]
+fn attach_parent_console() {}
+
+fn print_json<T: Serialize>(value: &T) -> Result<(), String> {
+    let json = serde_json::to_string_pretty(value)
+        .map_err(|e| format!("Failed to serialize output: {}", e))?;
+    println!("{}", json);
+    Ok(())
+}
+
+fn default_steamapps() -> Result<String, String> {
+    Ok(find_steam_install_directory()?
+        .join("steamapps")
+        .to_string_lossy()
+        .to_string())
+}
+
+fn needs_repair(diagnosis: &ShortcutDiagnosis) -> bool {
+    matches!(diagnosis.health, ShortcutHealth::IconMissing | ShortcutHealth::IconOutsideCache)
+}
+
+fn run_scan(options: &CliOptions, steamapps: String) -> Result<i32, String> {
+    let games = scan_games(steamapps, Some(options.locations.clone()))?;
+
+    if options.json {
+        print_json(&games)?;
+    } else {
+        for game in &games {
+            let health = match game.shortcut_health {
+                Some(GameShortcutHealth::HasShortcut) => "has shortcut",
+                Some(GameShortcutHealth::MissingIcon) => "shortcut without icon",
+                Some(GameShortcutHealth::NoShortcut) => "no shortcut",
+                Some(GameShortcutHealth::Multiple) => "multiple shortcuts",
+                Some(GameShortcutHealth::Malformed) => "broken shortcut",
+                None => "unknown",
+            };
+            println!("{:>10}  {}  [{}]", game.app_id, game.name, health);
+        }
+        println!("{} games", games.len());
+    }
+
+    Ok(EXIT_OK)
+}
+
+fn run_diagnose(options: &CliOptions, steamapps: String) -> Result<i32, String> {
+    let diagnoses = diagnose_shortcuts(steamapps, options.locations.clone())?;
+    let broken = diagnoses.iter().filter(|d| needs_repair(d)).count();
+
+    if options.json {
+        print_json(&diagnoses)?;
+    } else {
+        for diagnosis in &diagnoses {
+            let health = serde_json::to_value(&diagnosis.health)
+                .ok()
+                .and_then(|v| v.as_str().map(str::to_string))
+                .unwrap_or_default();
+            println!("{:<20} {}  ({})", health, diagnosis.name, diagnosis.location);
+            if !diagnosis.detail.is_empty() {
+                println!("{:<20} {}", "", diagnosis.detail);
+            }
+        }
+        println!("{} shortcuts, {} need repair", diagnoses.len(), broken);
+    }
+
+    Ok(if broken > 0 { EXIT_ISSUES } else { EXIT_OK })
+}
+
+fn run_quick_fix_command(options: &CliOptions, steamapps: String) -> Result<i32, String> {
+    let pending: Vec<ShortcutDiagnosis> = diagnose_shortcuts(steamapps, options.locations.clone())?
+        .into_iter()
+        .filter(needs_repair)
+        .collect();
+
+    if options.dry_run {
+        let code = if pending.is_empty() { EXIT_OK } else { EXIT_ISSUES };
+        if options.json {
+            print_json(&QuickFixReport { dry_run: true, fixes: Vec::new(), pending })?;
+        } else {
+            for diagnosis in &pending {
+                println!("Would repair {}  ({})", diagnosis.name, diagnosis.location);
+            }
+            println!("{} shortcuts would be repaired", pending.len());
+        }
+        return Ok(code);
+    }
+
+    if pending.is_empty() {
+        if options.json {
+            print_json(&QuickFixReport { dry_run: false, fixes: Vec::new(), pending })?;
+        } else {
+            println!("Nothing to repair");
+        }
+        return Ok(EXIT_OK);
+    }
+
+    let paths = pending.iter().map(|d| d.path.clone()).collect();
+    let cancelled = AtomicBool::new(false);
+    let json = options.json;
+
+    let fixes = run_quick_fix(
+        Some(paths),
+        &options.locations,
+        &DownloadSettings::default(),
+        DEFAULT_QUICK_FIX_WORKERS,
+        &cancelled,
+        |progress| {
+            if json {
+                return;
+            }
+            match &progress.fix.error {
+                None => println!("[{}/{}] Fixed {}", progress.completed, progress.total, progress.fix.name),
+                Some(e) => println!("[{}/{}] Failed {}: {}", progress.completed, progress.total, progress.fix.name, e),
+            }
+        },
+    )?;
+
+    let failed = fixes.iter().filter(|f| !f.success).count();
+    if json {
+        print_json(&QuickFixReport { dry_run: false, fixes, pending: Vec::new() })?;
+    } else {
+        println!("{} fixed, {} failed", fixes.len() - failed, failed);
+    }
+
+    Ok(if failed > 0 { EXIT_ISSUES } else { EXIT_OK })
+}
+
+fn run_cleanup_temp(options: &CliOptions, steamapps: String) -> Result<i32, String> {
+    let folders = restore_temp_folders(&steamapps, options.dry_run);
+
+    if options.json {
+        print_json(&CleanupReport { dry_run: options.dry_run, folders })?;
+    } else {
+        let verb = if options.dry_run { "Would restore" } else { "Restored" };
+        for folder in &folders {
+            println!("{} {}", verb, folder);
+        }
+        println!("{} {} folder(s)", verb, folders.len());
+    }
+
+    Ok(EXIT_OK)
+}
+
+// Returns None when no subcommand or option was given and the window should open as usual
+pub fn run_cli(args: &[String]) -> Option<i32> {
+    if !wants_cli(args) {
+        return None;
+    }
+
+    attach_parent_console();
+
+    if args.iter().any(|a| a == "-h" || a == "--help") {
+        println!("{}", USAGE);
+        return Some(EXIT_OK);
+    }
+
+    let options = match parse_args(args) {
+        Ok(options) => options,
+        Err(e) => {
+            eprintln!("{}\n\n{}", e, USAGE);
+            return Some(EXIT_USAGE);
+        }
+    };
+
+    if let Some(steam) = &options.steam {
+        if let Err(e) = override_steam_path(steam.clone()) {
+            eprintln!("Error: {}", e);
+            return Some(EXIT_USAGE);
+        }
+    }
+
+    let steamapps = match options.steamapps.clone().map(Ok).unwrap_or_else(default_steamapps) {
+        Ok(path) => path,
+        Err(e) => {
+            eprintln!("Error: {}", e);
+            return Some(EXIT_ERROR);
+        }
+    };
+
+    let result = match options.command {
+        CliCommand::Scan => run_scan(&options, steamapps),
+        CliCommand::Diagnose => run_diagnose(&options, steamapps),
+        CliCommand::QuickFix => run_quick_fix_command(&options, steamapps),
+        CliCommand::CleanupTemp => run_cleanup_temp(&options, steamapps),
+    };
+
+    Some(result.unwrap_or_else(|e| {
+        eprintln!("Error: {}", e);
+        EXIT_ERROR
+    }))
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    fn args(values: &[&str]) -> Vec<String> {
+        values.iter().map(|v| v.to_string()).collect()
+    }
+
+    // A throwaway steamapps folder with one installed game and one leftover temp folder
+    fn fixture(name: &str) -> PathBuf {
+        let steamapps = std::env::temp_dir()
+            .join(format!("ssf-cli-{}-{}", std::process::id(), name))
+            .join("steamapps");
+        let _ = fs::remove_dir_all(&steamapps);
+        fs::create_dir_all(steamapps.join("common").join("Portal")).unwrap();
+        fs::create_dir_all(steamapps.join("common").join("Half-Life_temp_rename")).unwrap();
+        fs::write(
+            steamapps.join("appmanifest_400.acf"),
+            "\"AppState\"\n{\n\t\"appid\"\t\t\"400\"\n\t\"name\"\t\t\"Portal\"\n\t\"installdir\"\t\t\"Portal\"\n\t\"StateFlags\"\t\t\"4\"\n}\n",
+        )
+        .unwrap();
+        steamapps
+    }
+
+    #[test]
+    fn parses_command_and_options() {
+        let options = parse_args(&args(&["quick-fix", "--location", "D:/Links", "--json", "--dry-run"])).unwrap();
+        assert_eq!(options.command, CliCommand::QuickFix);
+        assert_eq!(options.locations, vec!["D:/Links".to_string()]);
+        assert!(options.json && options.dry_run);
+    }
+
+    #[test]
+    fn rejects_unknown_command() {
+        assert_eq!(parse_args(&args(&["fix-everything"])).err().unwrap(), "Unknown command: fix-everything");
+        assert_eq!(parse_args(&args(&[])).err().unwrap(), "Missing command");
+    }
+
+    #[test]
+    fn rejects_option_without_value() {
+        assert_eq!(parse_args(&args(&["scan", "--steamapps"])).err().unwrap(), "--steamapps needs a path");
+        assert!(parse_args(&args(&["scan", "--verbose"])).is_err());
+    }
+
+    #[test]
+    fn launcher_arguments_open_the_window() {
+        assert!(!wants_cli(&args(&[])));
+        assert!(!wants_cli(&args(&["-psn_0_12345"])));
+        assert!(!wants_cli(&args(&["C:\\Users\\me\\Desktop\\Portal.url"])));
+        assert_eq!(run_cli(&args(&["--autostart"])), None);
+    }
+
+    #[test]
+    fn known_command_or_option_selects_cli() {
+        assert!(wants_cli(&args(&["scan"])));
+        assert!(wants_cli(&args(&["--help"])));
+        // Still CLI mode, so the user gets the usage error instead of a window
+        assert!(wants_cli(&args(&["--json"])));
+        assert_eq!(run_cli(&args(&["--json"])), Some(EXIT_USAGE));
+    }
+
+    #[test]
+    fn scan_reads_fixture_library() {
+        let steamapps = fixture("scan");
+        let steamapps = steamapps.to_string_lossy().to_string();
+
+        let games = scan_games(steamapps.clone(), None).unwrap();
+        assert_eq!(games.len(), 1);
+        assert_eq!(games[0].app_id, "400");
+        assert_eq!(games[0].name, "Portal");
+
+        assert_eq!(run_cli(&args(&["scan", "--steamapps", &steamapps, "--json"])), Some(EXIT_OK));
+        let _ = fs::remove_dir_all(Path::new(&steamapps).parent().unwrap());
+    }
+
+    #[test]
+    fn cleanup_temp_dry_run_leaves_folders_alone() {
+        let steamapps = fixture("cleanup");
+        let temp = steamapps.join("common").join("Half-Life_temp_rename");
+
+        assert_eq!(restore_temp_folders(&steamapps.to_string_lossy(), true), vec!["Half-Life".to_string()]);
+        assert_eq!(
+            run_cli(&args(&["cleanup-temp", "--steamapps", &steamapps.to_string_lossy(), "--dry-run"])),
+            Some(EXIT_OK)
+        );
+        assert!(temp.is_dir());
+        assert!(!steamapps.join("common").join("Half-Life").exists());
+        let _ = fs::remove_dir_all(steamapps.parent().unwrap());
+    }
+}
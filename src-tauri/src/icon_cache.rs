@@ -0,0 +1,108 @@
+use std::collections::HashMap;
+use std::fs;
+use std::path::Path;
+use regex::Regex;
+use serde::Serialize;
+
+use crate::backup::ChangeSet;
+use crate::icons::verify_icon_file;
+
+// Who an icon in steam/games belongs to, keyed by the icon hash (its file stem)
+#[derive(Debug, Clone)]
+pub struct IconOwner {
+    pub app_id: String,
+    pub name: String,
+    pub installed: bool,
+    pub shortcuts: usize,
+}
+
+#[derive(Debug, Serialize, Clone)]
+pub struct CachedIcon {
+    pub file_name: String,
+    pub path: String,
+    pub size: u64,
+    pub valid: bool,
+    pub problem: Option<String>,
+    pub app_id: Option<String>,
+    pub name: Option<String>,
+    pub installed: bool,
+    // Scanned shortcuts whose IconFile names this icon
+    pub shortcuts: usize,
+}
+
+// Steam names the per-app librarycache icon after the same hash it uses in steam/games
+pub fn library_icon_hashes(steam_path: &Path, app_id: &str) -> Vec<String> {
+    let hash_regex = match Regex::new(r"^[a-f0-9]{40}$") {
+        Ok(regex) => regex,
+        Err(_) => return Vec::new(),
+    };
+
+    fs::read_dir(steam_path.join("appcache").join("librarycache").join(app_id))
+        .into_iter()
+        .flatten()
+        .flatten()
+        .filter_map(|entry| {
+            let path = entry.path();
+            let stem = path.file_stem()?.to_str()?.to_string();
+            hash_regex.is_match(&stem).then_some(stem)
+        })
+        .collect()
+}
+
+fn is_cached_icon(path: &Path) -> bool {
+    path.is_file()
+        && path.extension()
+            .map(|e| e.eq_ignore_ascii_case("ico"))
+            .unwrap_or(false)
+}
+
+pub fn list(icons_cache: &Path, owners: &HashMap<String, IconOwner>) -> Vec<CachedIcon> {
+    let mut icons: Vec<CachedIcon> = fs::read_dir(icons_cache)
+        .into_iter()
+        .flatten()
+        .flatten()
+        .map(|entry| entry.path())
+        .filter(|path| is_cached_icon(path))
+        .map(|path| {
+            let file_name = path.file_name().unwrap_or_default().to_string_lossy().to_string();
+            let stem = path.file_stem().unwrap_or_default().to_string_lossy().to_lowercase();
+            let owner = owners.get(&stem);
+            let problem = verify_icon_file(&path).err();
+
+            CachedIcon {
+                size: fs::metadata(&path).map(|m| m.len()).unwrap_or(0),
+                path: path.to_string_lossy().to_string(),
+                valid: problem.is_none(),
+                problem,
+                app_id: owner.map(|o| o.app_id.clone()),
+                name: owner.map(|o| o.name.clone()),
+                installed: owner.map(|o| o.installed).unwrap_or(false),
+                shortcuts: owner.map(|o| o.shortcuts).unwrap_or(0),
+                file_name,
+            }
+        })
+        .collect();
+
+    // Broken icons first, then by name
+    icons.sort_by(|a, b| a.valid.cmp(&b.valid).then(a.file_name.cmp(&b.file_name)));
+    icons
+}
+
+// Names only, so nothing outside the cache folder can be removed
+pub fn purge(icons_cache: &Path, file_names: &[String], changes: &ChangeSet) -> Result<usize, String> {
+    let mut removed = 0;
+
+    for file_name in file_names {
+        let path = icons_cache.join(file_name);
+        if file_name.contains(['/', '\\']) || !is_cached_icon(&path) {
+            return Err(format!("{} is not an icon in the cache", file_name));
+        }
+
+        changes.before_delete(&path)?;
+        fs::remove_file(&path)
+            .map_err(|e| format!("Failed to remove {}: {}", path.display(), e))?;
+        removed += 1;
+    }
+
+    Ok(removed)
+}
@@ -0,0 +1,308 @@
+use std::collections::HashMap;
+use std::fs;
+use std::path::{Path, PathBuf};
+use std::sync::atomic::{AtomicU32, Ordering};
+use std::sync::{Arc, Mutex};
+use image::codecs::ico::{IcoEncoder, IcoFrame};
+use image::imageops::FilterType;
+use regex::Regex;
+use serde::{Deserialize, Serialize};
+
+use crate::backup::ChangeSet;
+
+#[derive(Debug, Serialize, Deserialize, Clone, PartialEq)]
+#[serde(rename_all = "snake_case")]
+pub enum IconSource {
+    // The icon was already in place, nothing was written
+    Existing,
+    LibraryCache,
+    Network,
+}
+
+const ICO_SIZES: [u32; 6] = [16, 24, 32, 48, 64, 256];
+// Image formats Steam stores in librarycache that convert_to_ico can read
+const LIBRARY_ICON_EXTENSIONS: [&str; 3] = ["jpg", "png", "ico"];
+
+pub const DEFAULT_ICON_BASE_URL: &str = "https://cdn.cloudflare.steamstatic.com/steamcommunity/public/images/apps";
+pub const INVALID_ICON_ERROR: &str = "Downloaded file is not a valid ICO";
+const MAX_RETRIES: u32 = 5;
+
+static TEMP_COUNTER: AtomicU32 = AtomicU32::new(0);
+// Quick Fix workers often share an icon (the same game on Desktop and Start Menu), one of them writes it
+static ICON_LOCKS: Mutex<Option<HashMap<PathBuf, Arc<Mutex<()>>>>> = Mutex::new(None);
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+#[serde(default)]
+pub struct DownloadSettings {
+    pub base_url: String,
+    pub proxy: String,
+    pub retries: u32,
+}
+
+impl Default for DownloadSettings {
+    fn default() -> Self {
+        DownloadSettings {
+            base_url: DEFAULT_ICON_BASE_URL.to_string(),
+            proxy: String::new(),
+            retries: 2,
+        }
+    }
+}
+
+// One HTTP client per run, shared by every shortcut
+pub struct IconDownloader {
+    client: reqwest::blocking::Client,
+    base_url: String,
+    retries: u32,
+}
+
+impl IconDownloader {
+    pub fn new(settings: &DownloadSettings) -> Result<Self, String> {
+        let mut builder = reqwest::blocking::Client::builder()
+            .timeout(std::time::Duration::from_secs(10));
+
+        if !settings.proxy.trim().is_empty() {
+            let proxy = reqwest::Proxy::all(settings.proxy.trim())
+                .map_err(|e| format!("Invalid proxy: {}", e))?;
+            builder = builder.proxy(proxy);
+        }
+
+        let client = builder
+            .build()
+            .map_err(|e| format!("HTTP client error: {}", e))?;
+
+        let base_url = match settings.base_url.trim().trim_end_matches('/') {
+            "" => DEFAULT_ICON_BASE_URL.to_string(),
+            url => url.to_string(),
+        };
+
+        Ok(IconDownloader {
+            client,
+            base_url,
+            retries: settings.retries.min(MAX_RETRIES),
+        })
+    }
+
+    pub fn icon_url(&self, app_id: &str, client_icon: &str) -> String {
+        format!("{}/{}/{}.ico", self.base_url, app_id, client_icon)
+    }
+
+    // The flag tells whether the failure is worth retrying
+    fn try_download(&self, url: &str) -> Result<Vec<u8>, (String, bool)> {
+        let response = self
+            .client
+            .get(url)
+            .send()
+            .map_err(|e| (format!("Download failed: {}", e), true))?;
+
+        let status = response.status();
+        if !status.is_success() {
+            let retryable = status.is_server_error() || status.as_u16() == 429;
+            return Err((format!("HTTP error: {}", status), retryable));
+        }
+
+        let bytes = response
+            .bytes()
+            .map_err(|e| (format!("Failed to read response: {}", e), true))?;
+
+        Ok(bytes.to_vec())
+    }
+
+    pub fn download(&self, url: &str) -> Result<Vec<u8>, String> {
+        let mut attempt = 0;
+
+        loop {
+            match self.try_download(url) {
+                Ok(bytes) => {
+                    validate_ico(&bytes)?;
+                    return Ok(bytes);
+                }
+                Err((e, true)) if attempt < self.retries => {
+                    let delay = std::time::Duration::from_millis(500 * 2u64.pow(attempt));
+                    eprintln!("Retrying {} in {:?}: {}", url, delay, e);
+                    std::thread::sleep(delay);
+                    attempt += 1;
+                }
+                Err((e, _)) => return Err(e),
+            }
+        }
+    }
+}
+
+// CDNs and captive portals happily return HTML error pages with a 200 status
+pub fn validate_ico(bytes: &[u8]) -> Result<(), String> {
+    if bytes.len() < 6 || bytes[0..4] != [0, 0, 1, 0] {
+        return Err(INVALID_ICON_ERROR.to_string());
+    }
+
+    let count = u16::from_le_bytes([bytes[4], bytes[5]]) as usize;
+    if count == 0 || bytes.len() < 6 + count * 16 {
+        return Err(format!("{}: truncated image directory", INVALID_ICON_ERROR));
+    }
+
+    // Each directory entry ends with the image's byte size and offset
+    for entry in bytes[6..6 + count * 16].chunks_exact(16) {
+        let size = u32::from_le_bytes([entry[8], entry[9], entry[10], entry[11]]) as usize;
+        let offset = u32::from_le_bytes([entry[12], entry[13], entry[14], entry[15]]) as usize;
+        if size == 0 || offset.checked_add(size).map(|end| end > bytes.len()).unwrap_or(true) {
+            return Err(format!("{}: truncated image data", INVALID_ICON_ERROR));
+        }
+    }
+
+    Ok(())
+}
+
+pub fn verify_icon_file(path: &Path) -> Result<(), String> {
+    let bytes = fs::read(path)
+        .map_err(|e| format!("Failed to read {}: {}", path.display(), e))?;
+
+    if bytes.is_empty() {
+        return Err("Empty file".to_string());
+    }
+
+    validate_ico(&bytes)
+}
+
+pub fn find_library_cache_icon(steam_path: &Path, app_id: &str, client_icon: Option<&str>) -> Option<PathBuf> {
+    let librarycache = steam_path.join("appcache").join("librarycache");
+    let app_folder = librarycache.join(app_id);
+
+    // Newer clients keep artwork in a per-app folder where the icon is named after its hash
+    if let Some(client_icon) = client_icon {
+        for extension in LIBRARY_ICON_EXTENSIONS {
+            let candidate = app_folder.join(format!("{}.{}", client_icon, extension));
+            if candidate.exists() {
+                return Some(candidate);
+            }
+        }
+    }
+
+    let legacy_icon = librarycache.join(format!("{}_icon.jpg", app_id));
+    if legacy_icon.exists() {
+        return Some(legacy_icon);
+    }
+
+    let hash_regex = Regex::new(r"^[a-f0-9]{40}$").ok()?;
+    fs::read_dir(&app_folder)
+        .ok()?
+        .flatten()
+        .map(|entry| entry.path())
+        .find(|path| {
+            // Hash-named subfolders hold other artwork, only image files are icons
+            let extension = path.extension().and_then(|s| s.to_str()).map(|s| s.to_ascii_lowercase());
+            path.is_file()
+                && extension.map(|e| LIBRARY_ICON_EXTENSIONS.contains(&e.as_str())).unwrap_or(false)
+                && path.file_stem()
+                    .and_then(|s| s.to_str())
+                    .map(|s| hash_regex.is_match(s))
+                    .unwrap_or(false)
+        })
+}
+
+// The wide header reads best as a list thumbnail, the icon is the fallback
+pub fn find_library_artwork(steam_path: &Path, app_id: &str) -> Option<PathBuf> {
+    let librarycache = steam_path.join("appcache").join("librarycache");
+    let app_folder = librarycache.join(app_id);
+
+    let mut candidates = vec![app_folder.join("header.jpg"), librarycache.join(format!("{}_header.jpg", app_id))];
+    // Some clients nest the header one folder deeper, under a hash of the artwork
+    candidates.extend(
+        fs::read_dir(&app_folder)
+            .into_iter()
+            .flatten()
+            .flatten()
+            .map(|entry| entry.path().join("header.jpg")),
+    );
+
+    candidates
+        .into_iter()
+        .find(|path| path.is_file())
+        .or_else(|| find_library_cache_icon(steam_path, app_id, None))
+}
+
+pub fn convert_to_ico(source: &Path) -> Result<Vec<u8>, String> {
+    let image = image::open(source)
+        .map_err(|e| format!("Failed to read {}: {}", source.display(), e))?;
+
+    // Upscaling a 32px icon to 256px only adds blur, stop at the source size
+    let largest = image.width().max(image.height()).max(32);
+
+    let mut frames = Vec::new();
+    for size in ICO_SIZES.into_iter().filter(|&size| size <= largest) {
+        let pixels = image.resize_exact(size, size, FilterType::Lanczos3).to_rgba8();
+        let frame = IcoFrame::as_png(pixels.as_raw(), size, size, image::ExtendedColorType::Rgba8)
+            .map_err(|e| format!("Failed to encode {}px icon: {}", size, e))?;
+        frames.push(frame);
+    }
+
+    let mut bytes = Vec::new();
+    IcoEncoder::new(&mut bytes)
+        .encode_images(&frames)
+        .map_err(|e| format!("Failed to encode icon: {}", e))?;
+
+    Ok(bytes)
+}
+
+// Write to a temporary file first so an interrupted write never leaves a truncated icon behind
+pub fn write_icon(target: &Path, bytes: &[u8]) -> Result<(), String> {
+    let temp = target.with_extension(format!(
+        "ico.{}-{}.tmp",
+        std::process::id(),
+        TEMP_COUNTER.fetch_add(1, Ordering::SeqCst)
+    ));
+
+    fs::write(&temp, bytes)
+        .map_err(|e| format!("Failed to write icon: {}", e))?;
+    fs::rename(&temp, target).map_err(|e| {
+        let _ = fs::remove_file(&temp);
+        format!("Failed to write icon: {}", e)
+    })
+}
+
+// Make sure <icons_cache>/<icon_filename> exists, trying Steam's local artwork before the CDN
+pub fn ensure_cached_icon(
+    downloader: &IconDownloader,
+    changes: &ChangeSet,
+    steam_path: &Path,
+    icons_cache: &Path,
+    app_id: &str,
+    client_icon: &str,
+    icon_filename: &str,
+) -> Result<IconSource, String> {
+    let target = icons_cache.join(icon_filename);
+
+    // Whoever waited here finds the icon already written and verified below
+    let lock = ICON_LOCKS
+        .lock()
+        .unwrap()
+        .get_or_insert_with(HashMap::new)
+        .entry(target.clone())
+        .or_default()
+        .clone();
+    let _guard = lock.lock().unwrap_or_else(|e| e.into_inner());
+
+    // A zero-byte file or a saved error page would otherwise be kept forever
+    if target.exists() {
+        match verify_icon_file(&target) {
+            Ok(()) => return Ok(IconSource::Existing),
+            Err(e) => eprintln!("Replacing broken cached icon {}: {}", target.display(), e),
+        }
+    }
+
+    if let Some(source) = find_library_cache_icon(steam_path, app_id, Some(client_icon)) {
+        match convert_to_ico(&source) {
+            Ok(bytes) => {
+                changes.before_write(&target)?;
+                write_icon(&target, &bytes)?;
+                return Ok(IconSource::LibraryCache);
+            }
+            Err(e) => eprintln!("Local icon unusable, falling back to download: {}", e),
+        }
+    }
+
+    let bytes = downloader.download(&downloader.icon_url(app_id, client_icon))?;
+    changes.before_write(&target)?;
+    write_icon(&target, &bytes)?;
+
+    Ok(IconSource::Network)
+}
@@ -0,0 +1,165 @@
+use std::fs;
+use std::path::{Path, PathBuf};
+use std::time::{SystemTime, UNIX_EPOCH};
+use serde::{Deserialize, Serialize};
+
+// Every Deep Repair step is written down before the app moves on, so a crash or
+// an early close never leaves a renamed game folder without a record of where it came from
+#[derive(Debug, Serialize, Deserialize, Clone, Copy, PartialEq)]
+#[serde(rename_all = "snake_case")]
+pub enum RepairStep {
+    // Written before the rename, the folder may or may not have moved yet
+    Renaming,
+    Renamed,
+    UninstallRequested,
+    Restored,
+    InstallRequested,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct StepRecord {
+    pub step: RepairStep,
+    pub timestamp: u64,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+pub struct RepairJournal {
+    pub app_id: String,
+    pub name: String,
+    pub library_path: String,
+    pub original_path: String,
+    pub temp_path: String,
+    pub started_at: u64,
+    pub step: RepairStep,
+    pub history: Vec<StepRecord>,
+    // Change-set every rename of this repair is recorded in
+    #[serde(default)]
+    pub run_id: Option<String>,
+    // Filled in when listing, never stored
+    #[serde(default, skip_deserializing)]
+    pub original_exists: bool,
+    #[serde(default, skip_deserializing)]
+    pub temp_exists: bool,
+}
+
+pub fn now() -> u64 {
+    SystemTime::now()
+        .duration_since(UNIX_EPOCH)
+        .map(|d| d.as_secs())
+        .unwrap_or(0)
+}
+
+impl RepairJournal {
+    pub fn new(app_id: &str, name: &str, library_path: &Path, original: &Path, temp: &Path) -> Self {
+        let timestamp = now();
+
+        RepairJournal {
+            app_id: app_id.to_string(),
+            name: name.to_string(),
+            library_path: library_path.to_string_lossy().to_string(),
+            original_path: original.to_string_lossy().to_string(),
+            temp_path: temp.to_string_lossy().to_string(),
+            started_at: timestamp,
+            step: RepairStep::Renaming,
+            history: vec![StepRecord { step: RepairStep::Renaming, timestamp }],
+            run_id: None,
+            original_exists: false,
+            temp_exists: false,
+        }
+    }
+
+    pub fn advance(&mut self, step: RepairStep) {
+        self.step = step;
+        self.history.push(StepRecord { step, timestamp: now() });
+    }
+
+    fn refresh(mut self) -> Self {
+        self.original_exists = Path::new(&self.original_path).exists();
+        self.temp_exists = Path::new(&self.temp_path).exists();
+        self
+    }
+}
+
+// The app ID comes from the front end and becomes a file name, so it has to be a plain number
+fn journal_file(dir: &Path, app_id: &str) -> Result<PathBuf, String> {
+    if app_id.is_empty() || !app_id.chars().all(|c| c.is_ascii_digit()) {
+        return Err(format!("Invalid app ID: {}", app_id));
+    }
+    Ok(dir.join(format!("{}.json", app_id)))
+}
+
+pub fn save(dir: &Path, journal: &RepairJournal) -> Result<(), String> {
+    let target = journal_file(dir, &journal.app_id)?;
+    fs::create_dir_all(dir)
+        .map_err(|e| format!("Failed to create journal directory: {}", e))?;
+
+    let content = serde_json::to_string_pretty(journal)
+        .map_err(|e| format!("Failed to serialize journal: {}", e))?;
+
+    // Same write-then-rename as the icon cache, a half-written journal is worse than none
+    let temp = target.with_extension("json.tmp");
+    fs::write(&temp, content)
+        .map_err(|e| format!("Failed to write journal: {}", e))?;
+    fs::rename(&temp, &target).map_err(|e| {
+        let _ = fs::remove_file(&temp);
+        format!("Failed to write journal: {}", e)
+    })
+}
+
+pub fn load(dir: &Path, app_id: &str) -> Result<RepairJournal, String> {
+    let path = journal_file(dir, app_id)?;
+    let content = fs::read_to_string(&path)
+        .map_err(|_| format!("No Deep Repair journal for app {}", app_id))?;
+
+    serde_json::from_str::<RepairJournal>(&content)
+        .map(RepairJournal::refresh)
+        .map_err(|e| format!("Failed to parse {}: {}", path.display(), e))
+}
+
+pub fn remove(dir: &Path, app_id: &str) -> Result<(), String> {
+    let path = journal_file(dir, app_id)?;
+    if !path.exists() {
+        return Ok(());
+    }
+
+    fs::remove_file(&path)
+        .map_err(|e| format!("Failed to remove journal: {}", e))
+}
+
+pub fn list(dir: &Path) -> Vec<RepairJournal> {
+    let mut journals: Vec<RepairJournal> = fs::read_dir(dir)
+        .into_iter()
+        .flatten()
+        .flatten()
+        .map(|entry| entry.path())
+        .filter(|path| path.extension().map(|e| e == "json").unwrap_or(false))
+        .filter_map(|path| {
+            let content = fs::read_to_string(&path).ok()?;
+            match serde_json::from_str::<RepairJournal>(&content) {
+                Ok(journal) => Some(journal.refresh()),
+                Err(e) => {
+                    eprintln!("Skipping unreadable journal {}: {}", path.display(), e);
+                    None
+                }
+            }
+        })
+        .collect();
+
+    journals.sort_by_key(|j| j.started_at);
+    journals
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    #[test]
+    fn journal_file_only_accepts_numeric_app_ids() {
+        let dir = Path::new("journals");
+        assert_eq!(journal_file(dir, "400").unwrap(), dir.join("400.json"));
+        for app_id in ["", "../400", "400.json", "..\\..\\settings", "4 00"] {
+            assert!(journal_file(dir, app_id).is_err(), "{:?} was accepted", app_id);
+        }
+        assert!(load(dir, "../../secrets").unwrap_err().starts_with("Invalid app ID"));
+    }
+}
@@ -1,9 +1,36 @@
 use std::fs;
 use std::path::{Path, PathBuf};
 use std::process::Command;
-use std::collections::HashSet;
+use std::collections::{HashMap, HashSet};
+use std::sync::atomic::{AtomicBool, AtomicUsize, Ordering};
+use std::sync::{Arc, Mutex, OnceLock};
 use serde::{Deserialize, Serialize};
 use regex::Regex;
+use tauri::{Emitter, Manager};
+
+mod agent;
+mod appinfo;
+mod audit;
+mod backup;
+mod cleanup;
+mod cli;
+mod icon_cache;
+mod icons;
+mod journal;
+mod report;
+mod vdf;
+
+use agent::{AgentRecord, AgentSettings, AgentState};
+use appinfo::AppInfo;
+use audit::AuditEntry;
+use backup::{ChangeSet, ChangeSetInfo, UndoReport};
+use cleanup::{CleanupAction, CleanupGroup, CleanupResult};
+use icon_cache::{CachedIcon, IconOwner};
+use icons::{DownloadSettings, IconDownloader, IconSource};
+use journal::{RepairJournal, RepairStep};
+use report::{Report, ReportFormat};
+
+pub use cli::run_cli;
 
 #[cfg(target_os = "windows")]
 use winreg::enums::*;
@@ -16,6 +43,29 @@ struct Game {
     app_id: String,
     path: String,
     status: String,
+    state_flags: u32,
+    size_on_disk: u64,
+    build_id: String,
+    last_updated: u64,
+    library_path: String,
+    // Only filled in when the scan was asked to look at shortcuts
+    #[serde(default)]
+    shortcut_health: Option<GameShortcutHealth>,
+    // Runtimes, redistributables and other non-game apps, filled in by scan_games from appinfo.vdf
+    #[serde(default)]
+    is_tool: bool,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone, Copy, PartialEq)]
+#[serde(rename_all = "snake_case")]
+enum GameShortcutHealth {
+    HasShortcut,
+    MissingIcon,
+    NoShortcut,
+    // More than one shortcut file for the game, wherever they live
+    Multiple,
+    // A shortcut exists but could not be read or parsed
+    Malformed,
 }
 
 #[derive(Debug, Serialize, Deserialize, Clone)]
@@ -24,24 +74,89 @@ struct ShortcutFix {
     game_id: String,
     icon_url: String,
     location: String,
+    path: String,
+    success: bool,
+    error: Option<String>,
+    source: Option<IconSource>,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+struct QuickFixProgress {
+    fix: ShortcutFix,
+    completed: usize,
+    total: usize,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone, PartialEq)]
+#[serde(rename_all = "snake_case")]
+enum ShortcutHealth {
+    Healthy,
+    IconMissing,
+    IconOutsideCache,
+    NotInstalled,
+    Malformed,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+struct ShortcutDiagnosis {
+    name: String,
+    path: String,
+    game_id: String,
+    location: String,
+    health: ShortcutHealth,
+    detail: String,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+struct NonSteamShortcut {
+    account_id: String,
+    account_name: String,
+    index: String,
+    app_id: u32,
+    app_name: String,
+    exe: String,
+    start_dir: String,
+    icon: String,
+    launch_options: String,
+    exe_missing: bool,
+    icon_missing: bool,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+struct CreatedShortcut {
+    name: String,
+    app_id: String,
+    location: String,
+    path: String,
     success: bool,
     error: Option<String>,
 }
 
+const NOT_STEAM_SHORTCUT: &str = "Not a Steam game shortcut";
+
 fn get_steam_library_folders(steamapps_path: &str) -> Vec<PathBuf> {
     let mut libraries = vec![PathBuf::from(steamapps_path)];
     
     let library_file = Path::new(steamapps_path).join("libraryfolders.vdf");
     
-    if let Ok(content) = fs::read_to_string(&library_file) {
-        for line in content.lines() {
-            if line.contains("\"path\"") {
-                if let Some(path) = extract_value(line) {
-                    if !path.is_empty() {
-                        let library_path = PathBuf::from(path).join("steamapps");
-                        if library_path.exists() && library_path != PathBuf::from(steamapps_path) {
-                            libraries.push(library_path);
-                        }
+    if let Ok(root) = vdf::parse_file(&library_file) {
+        let folders = root.get_obj("libraryfolders")
+            .or_else(|| root.get_obj("LibraryFolders"));
+
+        if let Some(folders) = folders {
+            for (key, value) in folders.iter() {
+                // Current format nests each library in a block with a "path" key,
+                // older clients stored the path directly under a numeric key
+                let path = match value {
+                    vdf::Value::Obj(folder) => folder.get_str("path"),
+                    vdf::Value::Str(path) if key.parse::<u32>().is_ok() => Some(path.as_str()),
+                    _ => None,
+                };
+
+                if let Some(path) = path.filter(|p| !p.is_empty()) {
+                    let library_path = PathBuf::from(path).join("steamapps");
+                    if library_path.exists() && library_path != PathBuf::from(steamapps_path) {
+                        libraries.push(library_path);
                     }
                 }
             }
@@ -51,43 +166,188 @@ fn get_steam_library_folders(steamapps_path: &str) -> Vec<PathBuf> {
     libraries
 }
 
-fn extract_value(line: &str) -> Option<String> {
-    let parts: Vec<&str> = line.split("\"").collect();
-    if parts.len() >= 4 {
-        Some(parts[3].replace("\\\\", "\\"))
-    } else {
-        None
-    }
+#[derive(Debug, Serialize, Deserialize, Clone)]
+struct SteamInstall {
+    path: String,
+    steamapps: String,
+    // Where it was found, e.g. "Registry (HKLM)" or "Flatpak"
+    source: String,
+    libraries: Vec<String>,
 }
 
+// Set from Settings when more than one Steam install was found
+static STEAM_PATH_OVERRIDE: Mutex<Option<PathBuf>> = Mutex::new(None);
+
 #[cfg(target_os = "windows")]
-fn find_steam_install_directory() -> Result<PathBuf, String> {
-    // Try default location first
-    let default_path = PathBuf::from("C:\\Program Files (x86)\\Steam");
-    if default_path.join("steam.exe").exists() {
-        return Ok(default_path);
-    }
+fn steam_install_candidates() -> Vec<(PathBuf, &'static str)> {
+    let mut candidates = Vec::new();
 
-    // Try reading from Windows registry
-    let hklm = RegKey::predef(HKEY_CURRENT_USER);
-    if let Ok(steam_key) = hklm.open_subkey("SOFTWARE\\Valve\\Steam") {
+    let hkcu = RegKey::predef(HKEY_CURRENT_USER);
+    if let Ok(steam_key) = hkcu.open_subkey("SOFTWARE\\Valve\\Steam") {
         if let Ok(install_path) = steam_key.get_value::<String, _>("SteamPath") {
-            let path = PathBuf::from(install_path);
-            if path.join("steam.exe").exists() {
-                return Ok(path);
+            candidates.push((PathBuf::from(install_path.replace('/', "\\")), "Registry (HKCU)"));
+        }
+    }
+
+    let hklm = RegKey::predef(HKEY_LOCAL_MACHINE);
+    for (key, source) in [
+        ("SOFTWARE\\WOW6432Node\\Valve\\Steam", "Registry (HKLM WOW6432Node)"),
+        ("SOFTWARE\\Valve\\Steam", "Registry (HKLM)"),
+    ] {
+        if let Ok(steam_key) = hklm.open_subkey(key) {
+            if let Ok(install_path) = steam_key.get_value::<String, _>("InstallPath") {
+                candidates.push((PathBuf::from(install_path), source));
             }
         }
     }
 
-    Err("Could not find Steam installation directory".to_string())
+    candidates.push((PathBuf::from("C:\\Program Files (x86)\\Steam"), "Default location"));
+    candidates.push((PathBuf::from("C:\\Program Files\\Steam"), "Default location"));
+
+    candidates
+}
+
+#[cfg(target_os = "macos")]
+fn steam_install_candidates() -> Vec<(PathBuf, &'static str)> {
+    let home = match std::env::var("HOME") {
+        Ok(home) => PathBuf::from(home),
+        Err(_) => return Vec::new(),
+    };
+
+    vec![(home.join("Library").join("Application Support").join("Steam"), "macOS")]
+}
+
+#[cfg(not(any(target_os = "windows", target_os = "macos")))]
+fn steam_install_candidates() -> Vec<(PathBuf, &'static str)> {
+    let home = match std::env::var("HOME") {
+        Ok(home) => PathBuf::from(home),
+        Err(_) => return Vec::new(),
+    };
+    let flatpak = home.join(".var").join("app").join("com.valvesoftware.Steam");
+    let snap = home.join("snap").join("steam").join("common");
+
+    vec![
+        (home.join(".steam").join("steam"), "Native"),
+        (home.join(".steam").join("root"), "Native"),
+        (home.join(".local").join("share").join("Steam"), "Native"),
+        (flatpak.join(".local").join("share").join("Steam"), "Flatpak"),
+        (flatpak.join("data").join("Steam"), "Flatpak"),
+        (snap.join(".local").join("share").join("Steam"), "Snap"),
+        (snap.join(".steam").join("steam"), "Snap"),
+    ]
+}
+
+// Every distinct install that has a steamapps folder, in candidate order
+fn find_steam_installs() -> Vec<SteamInstall> {
+    let mut seen = HashSet::new();
+    let mut installs = Vec::new();
+
+    for (path, source) in steam_install_candidates() {
+        let steamapps = path.join("steamapps");
+        if !steamapps.is_dir() {
+            continue;
+        }
+
+        // ~/.steam/steam is usually a symlink to one of the other folders
+        let key = fs::canonicalize(&path).unwrap_or_else(|_| path.clone());
+        if !seen.insert(key) {
+            continue;
+        }
+
+        let steamapps = steamapps.to_string_lossy().to_string();
+        installs.push(SteamInstall {
+            path: path.to_string_lossy().to_string(),
+            libraries: get_steam_library_folders(&steamapps)
+                .iter()
+                .map(|p| p.to_string_lossy().to_string())
+                .collect(),
+            steamapps,
+            source: source.to_string(),
+        });
+    }
+
+    installs
 }
 
-#[cfg(not(target_os = "windows"))]
 fn find_steam_install_directory() -> Result<PathBuf, String> {
-    Err("Quick fix only supported on Windows".to_string())
+    if let Some(path) = STEAM_PATH_OVERRIDE.lock().unwrap().clone() {
+        return Ok(path);
+    }
+
+    find_steam_installs()
+        .into_iter()
+        .next()
+        .map(|install| PathBuf::from(install.path))
+        .ok_or_else(|| "Could not find Steam installation directory".to_string())
+}
+
+#[tauri::command]
+fn detect_steam_installs() -> Vec<SteamInstall> {
+    let installs = find_steam_installs();
+    eprintln!("Found {} Steam installs", installs.len());
+    installs
+}
+
+// An empty path goes back to auto-detection
+#[tauri::command]
+fn set_steam_path(artwork: tauri::State<'_, ArtworkState>, path: String) -> Result<(), String> {
+    override_steam_path(path)?;
+    artwork.forget_steam_path();
+    Ok(())
+}
+
+fn override_steam_path(path: String) -> Result<(), String> {
+    let path = path.trim();
+    let mut current = STEAM_PATH_OVERRIDE.lock().unwrap();
+
+    if path.is_empty() {
+        *current = None;
+        return Ok(());
+    }
+
+    let path = PathBuf::from(path);
+    if !path.join("steamapps").is_dir() {
+        return Err(format!("{} is not a Steam installation", path.display()));
+    }
+
+    *current = Some(path);
+    Ok(())
 }
 
-fn get_shortcut_locations() -> Vec<PathBuf> {
+#[cfg(target_os = "windows")]
+fn expand_env_vars(value: &str) -> String {
+    match Regex::new(r"%([^%]+)%") {
+        Ok(regex) => regex
+            .replace_all(value, |caps: &regex::Captures| {
+                std::env::var(&caps[1]).unwrap_or_else(|_| caps[0].to_string())
+            })
+            .to_string(),
+        Err(_) => value.to_string(),
+    }
+}
+
+// Folder redirection (Group Policy or OneDrive backup) moves the Desktop out of the profile
+#[cfg(target_os = "windows")]
+fn get_redirected_desktop() -> Option<PathBuf> {
+    let hkcu = RegKey::predef(HKEY_CURRENT_USER);
+    let shell_folders = hkcu
+        .open_subkey("Software\\Microsoft\\Windows\\CurrentVersion\\Explorer\\User Shell Folders")
+        .ok()?;
+    let desktop = shell_folders.get_value::<String, _>("Desktop").ok()?;
+    Some(PathBuf::from(expand_env_vars(&desktop)))
+}
+
+#[cfg(target_os = "linux")]
+fn get_xdg_desktop(home: &str) -> Option<PathBuf> {
+    let user_dirs = fs::read_to_string(PathBuf::from(home).join(".config").join("user-dirs.dirs")).ok()?;
+    let line = user_dirs
+        .lines()
+        .find(|line| line.trim_start().starts_with("XDG_DESKTOP_DIR="))?;
+    let value = line.split_once('=')?.1.trim().trim_matches('"');
+    Some(PathBuf::from(value.replace("$HOME", home)))
+}
+
+fn get_shortcut_locations(extra_locations: &[String]) -> Vec<PathBuf> {
     let mut locations = Vec::new();
 
     if let Ok(userprofile) = std::env::var("USERPROFILE") {
@@ -96,6 +356,15 @@ fn get_shortcut_locations() -> Vec<PathBuf> {
         
         // OneDrive Desktop
         locations.push(PathBuf::from(&userprofile).join("OneDrive").join("Desktop"));
+
+        // OneDrive for Business folders are named "OneDrive - <Organization>"
+        if let Ok(entries) = fs::read_dir(&userprofile) {
+            for entry in entries.flatten() {
+                if entry.file_name().to_string_lossy().starts_with("OneDrive - ") {
+                    locations.push(entry.path().join("Desktop"));
+                }
+            }
+        }
         
         // Start Menu
         if let Ok(appdata) = std::env::var("APPDATA") {
@@ -103,34 +372,106 @@ fn get_shortcut_locations() -> Vec<PathBuf> {
         }
     }
 
-    // Filter to only existing directories
-    locations.into_iter().filter(|p| p.exists()).collect()
+    for var in ["OneDrive", "OneDriveCommercial", "OneDriveConsumer"] {
+        if let Ok(onedrive) = std::env::var(var) {
+            locations.push(PathBuf::from(onedrive).join("Desktop"));
+        }
+    }
+
+    // Shortcuts shared by all users
+    if let Ok(public) = std::env::var("PUBLIC") {
+        locations.push(PathBuf::from(public).join("Desktop"));
+    }
+    if let Ok(program_data) = std::env::var("ProgramData") {
+        locations.push(PathBuf::from(program_data).join("Microsoft\\Windows\\Start Menu\\Programs"));
+    }
+
+    #[cfg(target_os = "windows")]
+    {
+        if let Some(desktop) = get_redirected_desktop() {
+            locations.push(desktop);
+        }
+    }
+
+    // Steam on Linux writes .desktop entries to the app menu and Desktop
+    #[cfg(target_os = "linux")]
+    {
+        if let Ok(home) = std::env::var("HOME") {
+            locations.push(PathBuf::from(&home).join(".local").join("share").join("applications"));
+            locations.push(PathBuf::from(&home).join("Desktop"));
+            if let Some(desktop) = get_xdg_desktop(&home) {
+                locations.push(desktop);
+            }
+        }
+    }
+
+    locations.extend(extra_locations.iter().filter(|p| !p.trim().is_empty()).map(PathBuf::from));
+
+    // Filter to only existing directories, the same folder is often reachable through several variables
+    let mut seen = HashSet::new();
+    locations
+        .into_iter()
+        .filter(|p| p.is_dir())
+        .filter(|p| seen.insert(fs::canonicalize(p).unwrap_or_else(|_| p.clone())))
+        .collect()
 }
 
 #[tauri::command]
-fn scan_games(steamapps_path: String) -> Result<Vec<Game>, String> {
-    let mut games = Vec::new();
-    let mut seen_app_ids = HashSet::new();
+fn detect_shortcut_locations() -> Vec<String> {
+    get_shortcut_locations(&[])
+        .into_iter()
+        .map(|p| p.to_string_lossy().to_string())
+        .collect()
+}
+
+#[tauri::command]
+fn scan_games(steamapps_path: String, extra_locations: Option<Vec<String>>) -> Result<Vec<Game>, String> {
     let libraries = get_steam_library_folders(&steamapps_path);
     
-    println!("Found {} Steam library folders", libraries.len());
+    eprintln!("Found {} Steam library folders", libraries.len());
+    for library_path in &libraries {
+        eprintln!("Scanning: {:?}", library_path);
+    }
+
+    let mut games = read_installed_games(&libraries);
     
+    eprintln!("Found {} total games", games.len());
+
+    let paths = get_icons_cache();
+    match &paths {
+        Ok((steam_path, _)) => mark_tools(&mut games, steam_path),
+        Err(e) => eprintln!("Skipping tool detection: {}", e),
+    }
+
+    if let Some(extra_locations) = extra_locations {
+        match &paths {
+            Ok((_, icons_cache)) => assign_shortcut_health(&mut games, icons_cache, &extra_locations),
+            Err(e) => eprintln!("Skipping shortcut health: {}", e),
+        }
+    }
+
+    Ok(games)
+}
+
+// Does no logging of its own, the tray agent runs it on every change it sees
+fn read_installed_games(libraries: &[PathBuf]) -> Vec<Game> {
+    let mut games = Vec::new();
+    let mut seen_app_ids = HashSet::new();
+
     for library_path in libraries {
-        println!("Scanning: {:?}", library_path);
-        
         let common_path = library_path.join("common");
         
         if !common_path.exists() {
             continue;
         }
 
-        if let Ok(entries) = fs::read_dir(&library_path) {
+        if let Ok(entries) = fs::read_dir(library_path) {
             for entry in entries.flatten() {
                 let path = entry.path();
                 if let Some(filename) = path.file_name() {
                     let filename_str = filename.to_string_lossy();
                     if filename_str.starts_with("appmanifest_") && filename_str.ends_with(".acf") {
-                        if let Ok(game) = parse_manifest(&path, &common_path) {
+                        if let Ok(game) = parse_manifest(&path, library_path) {
                             if seen_app_ids.insert(game.app_id.clone()) {
                                 games.push(game);
                             }
@@ -140,232 +481,1461 @@ fn scan_games(steamapps_path: String) -> Result<Vec<Game>, String> {
             }
         }
     }
-    
-    println!("Found {} total games", games.len());
-    Ok(games)
+
+    games
 }
 
-fn parse_manifest(manifest_path: &Path, common_path: &Path) -> Result<Game, String> {
-    let content = fs::read_to_string(manifest_path)
-        .map_err(|e| format!("Failed to read manifest: {}", e))?;
-    
-    let mut name = String::new();
-    let mut app_id = String::new();
-    let mut install_dir = String::new();
+fn assign_shortcut_health(games: &mut [Game], icons_cache: &Path, extra_locations: &[String]) {
+    let installed: HashSet<String> = games.iter().map(|g| g.app_id.clone()).collect();
 
-    for line in content.lines() {
-        if line.contains("\"appid\"") {
-            if let Some(val) = extract_value(line) {
-                app_id = val;
-            }
-        } else if line.contains("\"name\"") {
-            if let Some(val) = extract_value(line) {
-                name = val;
-            }
-        } else if line.contains("\"installdir\"") {
-            if let Some(val) = extract_value(line) {
-                install_dir = val;
-            }
-        }
+    let mut by_game: HashMap<String, Vec<ShortcutDiagnosis>> = HashMap::new();
+    for diagnosis in collect_diagnoses(&installed, icons_cache, extra_locations) {
+        by_game.entry(diagnosis.game_id.clone()).or_default().push(diagnosis);
+    }
+
+    for game in games.iter_mut() {
+        let shortcuts = by_game.get(&game.app_id).map(Vec::as_slice).unwrap_or_default();
+
+        // An extra location can overlap a default one, count each file once
+        let files: HashSet<PathBuf> = shortcuts
+            .iter()
+            .map(|d| fs::canonicalize(&d.path).unwrap_or_else(|_| PathBuf::from(&d.path)))
+            .collect();
+
+        // A broken shortcut or icon is the more useful thing to report when both apply
+        game.shortcut_health = Some(if shortcuts.is_empty() {
+            GameShortcutHealth::NoShortcut
+        } else if shortcuts.iter().any(|d| d.health == ShortcutHealth::Malformed) {
+            GameShortcutHealth::Malformed
+        } else if shortcuts.iter().any(|d| matches!(d.health, ShortcutHealth::IconMissing | ShortcutHealth::IconOutsideCache)) {
+            GameShortcutHealth::MissingIcon
+        } else if files.len() > 1 {
+            GameShortcutHealth::Multiple
+        } else {
+            GameShortcutHealth::HasShortcut
+        });
+    }
+}
+
+// appinfo.vdf says what kind of app each one is, anything that is not a game or its demo/DLC counts as a tool
+const TOOL_APP_TYPES: &[&str] = &["tool", "application", "config"];
+// Only for apps appinfo.vdf does not know yet, e.g. right after install
+const TOOL_NAME_PATTERN: &str = r"(?i)^(proton\b|steam linux runtime|steamworks\b|steamvr\b)";
+static TOOL_NAME_REGEX: OnceLock<Regex> = OnceLock::new();
+
+fn is_tool(app_info: &AppInfo, app_id: &str, name: &str) -> bool {
+    match app_info.app_type(app_id) {
+        Some(app_type) => TOOL_APP_TYPES.iter().any(|t| app_type.eq_ignore_ascii_case(t)),
+        None => TOOL_NAME_REGEX
+            .get_or_init(|| Regex::new(TOOL_NAME_PATTERN).unwrap())
+            .is_match(name),
+    }
+}
+
+fn mark_tools(games: &mut [Game], steam_path: &Path) {
+    let app_info = AppInfo::new(steam_path);
+    for game in games.iter_mut() {
+        game.is_tool = is_tool(&app_info, &game.app_id, &game.name);
     }
+}
+
+fn parse_manifest(manifest_path: &Path, library_path: &Path) -> Result<Game, String> {
+    let root = vdf::parse_file(manifest_path)?;
+    let app_state = root.get_obj("AppState")
+        .ok_or("Manifest has no AppState block")?;
+
+    let name = app_state.get_str("name").unwrap_or_default().to_string();
+    let app_id = app_state.get_str("appid").unwrap_or_default().to_string();
+    let install_dir = app_state.get_str("installdir").unwrap_or_default().to_string();
 
-    let game_path = common_path.join(&install_dir);
+    let game_path = library_path.join("common").join(&install_dir);
     
-    if !name.is_empty() && !app_id.is_empty() && game_path.exists() {
+    if !name.is_empty() && !app_id.is_empty() && !install_dir.is_empty() && game_path.exists() {
         Ok(Game {
             name,
             app_id,
             path: install_dir,
             status: "ready".to_string(),
+            state_flags: app_state.get_u64("StateFlags").unwrap_or(0) as u32,
+            size_on_disk: app_state.get_u64("SizeOnDisk").unwrap_or(0),
+            build_id: app_state.get_str("buildid").unwrap_or_default().to_string(),
+            last_updated: app_state.get_u64("LastUpdated").unwrap_or(0),
+            library_path: library_path.to_string_lossy().to_string(),
+            shortcut_health: None,
+            is_tool: false,
         })
     } else {
         Err("Invalid manifest data".to_string())
     }
 }
 
-#[tauri::command]
-fn quick_fix_shortcuts() -> Result<Vec<ShortcutFix>, String> {
-    let mut fixes = Vec::new();
-    
-    // Find Steam installation
-    let steam_path = find_steam_install_directory()?;
-    let icons_cache = steam_path.join("steam").join("games");
-    
-    println!("Steam path: {:?}", steam_path);
-    println!("Icons cache: {:?}", icons_cache);
+fn shortcut_extension(path: &Path) -> String {
+    path.extension()
+        .and_then(|s| s.to_str())
+        .map(|s| s.to_ascii_lowercase())
+        .unwrap_or_default()
+}
 
-    // Create icons cache directory if it doesn't exist
-    if !icons_cache.exists() {
-        fs::create_dir_all(&icons_cache)
-            .map_err(|e| format!("Failed to create icons cache directory: {}", e))?;
-    }
+const MAX_SHORTCUT_DEPTH: usize = 4;
 
-    // Get all shortcut locations
-    let locations = get_shortcut_locations();
-    println!("Scanning {} locations", locations.len());
+fn collect_shortcut_files(
+    dir: &Path,
+    depth: usize,
+    location_name: &str,
+    seen: &mut HashSet<PathBuf>,
+    files: &mut Vec<(PathBuf, String)>,
+) {
+    let entries = match fs::read_dir(dir) {
+        Ok(entries) => entries,
+        Err(_) => return,
+    };
 
-    for location in locations {
-        println!("Scanning: {:?}", location);
-        
-        // Find all .url files recursively
-        if let Ok(entries) = fs::read_dir(&location) {
-            for entry in entries.flatten() {
-                let path = entry.path();
-                
-                if path.is_file() && path.extension().and_then(|s| s.to_str()).map(|s| s.eq_ignore_ascii_case("url")).unwrap_or(false) {
-                    let location_name = location.file_name()
-                        .and_then(|n| n.to_str())
-                        .unwrap_or("Unknown");
-                    
-                    match process_shortcut(&path, &icons_cache, location_name) {
-                        Ok(fix) => {
-                            println!("Fixed: {}", fix.name);
-                            fixes.push(fix);
-                        }
-                        Err(e) => {
-                            println!("Failed {}: {}", path.display(), e);
-                            fixes.push(ShortcutFix {
-                                name: path.file_name()
-                                    .and_then(|n| n.to_str())
-                                    .unwrap_or("Unknown")
-                                    .to_string(),
-                                game_id: String::new(),
-                                icon_url: String::new(),
-                                location: location_name.to_string(),
-                                success: false,
-                                error: Some(e),
-                            });
-                        }
-                    }
-                }
+    for entry in entries.flatten() {
+        let path = entry.path();
+        let file_type = match entry.file_type() {
+            Ok(file_type) => file_type,
+            Err(_) => continue,
+        };
+
+        // Symlinked folders and junctions are not followed, they can loop back on themselves
+        if file_type.is_dir() {
+            if depth < MAX_SHORTCUT_DEPTH {
+                collect_shortcut_files(&path, depth + 1, location_name, seen, files);
             }
+            continue;
         }
-    }
 
-    Ok(fixes)
+        let extension = shortcut_extension(&path);
+        if path.is_file() && (extension == "url" || extension == "desktop") && seen.insert(path.clone()) {
+            files.push((path, location_name.to_string()));
+        }
+    }
 }
 
-fn process_shortcut(file_path: &Path, icons_cache: &Path, location: &str) -> Result<ShortcutFix, String> {
-    let content = fs::read_to_string(file_path)
-        .map_err(|e| format!("Failed to read file: {}", e))?;
+// Collect every .url/.desktop file along with the name of the location it was found in
+fn find_shortcut_files(extra_locations: &[String]) -> Vec<(PathBuf, String)> {
+    // Get all shortcut locations
+    let locations = get_shortcut_locations(extra_locations);
+    eprintln!("Scanning {} locations", locations.len());
+    for location in &locations {
+        eprintln!("Scanning: {:?}", location);
+    }
 
-    // Extract game ID
-    let game_id_regex = Regex::new(r"URL=steam://rungameid/(\d+)")
-        .map_err(|_| "Regex error".to_string())?;
-    let game_id = game_id_regex
-        .captures(&content)
-        .and_then(|c| c.get(1))
-        .map(|m| m.as_str().to_string())
-        .ok_or("Not a Steam game shortcut")?;
+    collect_location_shortcuts(&locations)
+}
 
-    // Extract icon file line to get the icon hash
-    let icon_line_regex = Regex::new(r"IconFile=(.+\.ico)")
-        .map_err(|_| "Regex error".to_string())?;
-    let icon_file_path = icon_line_regex
-        .captures(&content)
-        .and_then(|c| c.get(1))
-        .map(|m| m.as_str().trim().to_string())
-        .ok_or("No icon path found")?;
+// Quiet version for the tray agent, which scans every few seconds
+fn collect_location_shortcuts(locations: &[PathBuf]) -> Vec<(PathBuf, String)> {
+    let mut files = Vec::new();
+    let mut seen = HashSet::new();
 
-    // Extract icon filename (just the filename, not full path)
-    let icon_filename = PathBuf::from(&icon_file_path)
-        .file_name()
-        .and_then(|n| n.to_str())
-        .map(|s| s.to_string())
-        .ok_or("Could not extract icon filename")?;
+    for location in locations {
+        let location_name = location.file_name()
+            .and_then(|n| n.to_str())
+            .unwrap_or("Unknown")
+            .to_string();
 
-    // Extract client icon hash from filename
-    let hash_regex = Regex::new(r"([a-f0-9]+)\.ico")
-        .map_err(|_| "Regex error".to_string())?;
-    let client_icon = hash_regex
-        .captures(&icon_filename)
-        .and_then(|c| c.get(1))
-        .map(|m| m.as_str().to_string())
-        .ok_or("Could not extract icon hash")?;
+        // Find all shortcut files recursively
+        collect_shortcut_files(location, 0, &location_name, &mut seen, &mut files);
+    }
 
-    // Construct CDN URL
-    let icon_url = format!(
-        "https://cdn.cloudflare.steamstatic.com/steamcommunity/public/images/apps/{}/{}.ico",
-        game_id, client_icon
-    );
+    files
+}
 
-    // Download to central cache
-    let cache_icon_path = icons_cache.join(&icon_filename);
-    
-    // Only download if not already cached
-    if !cache_icon_path.exists() {
-        let client = reqwest::blocking::Client::builder()
-            .timeout(std::time::Duration::from_secs(10))
-            .build()
-            .map_err(|e| format!("HTTP client error: {}", e))?;
+fn get_icons_cache() -> Result<(PathBuf, PathBuf), String> {
+    let (steam_path, icons_cache) = icons_cache_paths()?;
 
-        let response = client
-            .get(&icon_url)
-            .send()
-            .map_err(|e| format!("Download failed: {}", e))?;
+    eprintln!("Steam path: {:?}", steam_path);
+    eprintln!("Icons cache: {:?}", icons_cache);
 
-        if !response.status().is_success() {
-            return Err(format!("HTTP error: {}", response.status()));
-        }
+    Ok((steam_path, icons_cache))
+}
 
-        let bytes = response
-            .bytes()
-            .map_err(|e| format!("Failed to read response: {}", e))?;
+fn icons_cache_paths() -> Result<(PathBuf, PathBuf), String> {
+    let steam_path = find_steam_install_directory()?;
+    let icons_cache = steam_path.join("steam").join("games");
+    Ok((steam_path, icons_cache))
+}
 
-        fs::write(&cache_icon_path, bytes)
-            .map_err(|e| format!("Failed to write icon: {}", e))?;
-    }
+const QUICK_FIX_PROGRESS_EVENT: &str = "quick-fix-progress";
+const DEFAULT_QUICK_FIX_WORKERS: usize = 4;
+const MAX_QUICK_FIX_WORKERS: usize = 16;
 
-    Ok(ShortcutFix {
-        name: file_path
-            .file_stem()
-            .and_then(|n| n.to_str())
-            .unwrap_or("Unknown")
-            .to_string(),
-        game_id,
-        icon_url,
-        location: location.to_string(),
-        success: true,
-        error: None,
-    })
+#[derive(Default)]
+struct QuickFixState {
+    cancelled: Arc<AtomicBool>,
 }
 
-#[tauri::command]
-fn rename_game_folder(steamapps_path: String, game_path: String) -> Result<String, String> {
-    let libraries = get_steam_library_folders(&steamapps_path);
-    
-    for library in libraries {
-        let common_path = library.join("common");
-        let original = common_path.join(&game_path);
-        
-        if original.exists() {
-            let temp = common_path.join(format!("{}_temp_rename", game_path));
-            fs::rename(&original, &temp)
-                .map_err(|e| format!("Failed to rename folder: {}", e))?;
-            return Ok(format!("{}_temp_rename", game_path));
+fn fix_shortcut_file(
+    path: &Path,
+    location_name: &str,
+    downloader: &IconDownloader,
+    steam_path: &Path,
+    icons_cache: &Path,
+    app_info: &AppInfo,
+    changes: &ChangeSet,
+) -> ShortcutFix {
+    let result = if shortcut_extension(path) == "desktop" {
+        process_desktop_entry(path, steam_path, location_name, changes)
+    } else {
+        process_shortcut(path, downloader, steam_path, icons_cache, app_info, location_name, changes)
+    };
+
+    match result {
+        Ok(fix) => {
+            eprintln!("Fixed: {}", fix.name);
+            fix
+        }
+        Err(e) => {
+            eprintln!("Failed {}: {}", path.display(), e);
+            ShortcutFix {
+                name: path.file_name()
+                    .and_then(|n| n.to_str())
+                    .unwrap_or("Unknown")
+                    .to_string(),
+                game_id: String::new(),
+                icon_url: String::new(),
+                location: location_name.to_string(),
+                path: path.to_string_lossy().to_string(),
+                success: false,
+                error: Some(e),
+                source: None,
+            }
         }
     }
-    
-    Err("Game folder not found in any library".to_string())
 }
 
-#[tauri::command]
-fn revert_game_folder(steamapps_path: String, temp_name: String) -> Result<(), String> {
-    let libraries = get_steam_library_folders(&steamapps_path);
-    
-    for library in libraries {
-        let common_path = library.join("common");
-        let temp = common_path.join(&temp_name);
+fn run_quick_fix(
+    paths: Option<Vec<String>>,
+    extra_locations: &[String],
+    download: &DownloadSettings,
+    workers: usize,
+    cancelled: &AtomicBool,
+    on_progress: impl Fn(QuickFixProgress) + Sync,
+) -> Result<Vec<ShortcutFix>, String> {
+    // Find Steam installation
+    let (steam_path, icons_cache) = get_icons_cache()?;
+    let downloader = IconDownloader::new(download)?;
+    let app_info = AppInfo::new(&steam_path);
+    let changes = ChangeSet::begin(&get_backups_dir()?, "Quick Fix");
+
+    // Create icons cache directory if it doesn't exist
+    if !icons_cache.exists() {
+        fs::create_dir_all(&icons_cache)
+            .map_err(|e| format!("Failed to create icons cache directory: {}", e))?;
+    }
+
+    // Only touch the shortcuts picked from the diagnosis when given
+    let requested: Option<HashSet<PathBuf>> = paths.map(|p| p.into_iter().map(PathBuf::from).collect());
+
+    let jobs: Vec<(PathBuf, String)> = find_shortcut_files(extra_locations)
+        .into_iter()
+        .filter(|(path, _)| requested.as_ref().map(|r| r.contains(path)).unwrap_or(true))
+        // The applications folder is full of non-Steam launchers
+        .filter(|(path, _)| {
+            shortcut_extension(path) != "desktop"
+                || fs::read_to_string(path).map(|c| c.contains("steam://rungameid/")).unwrap_or(false)
+        })
+        .collect();
+
+    let total = jobs.len();
+    let next_job = AtomicUsize::new(0);
+    let completed = AtomicUsize::new(0);
+    let fixes = Mutex::new(Vec::with_capacity(total));
+
+    let workers = workers.clamp(1, MAX_QUICK_FIX_WORKERS).min(total.max(1));
+    eprintln!("Fixing {} shortcuts with {} workers", total, workers);
+
+    std::thread::scope(|scope| {
+        for _ in 0..workers {
+            scope.spawn(|| {
+                while !cancelled.load(Ordering::SeqCst) {
+                    let (path, location_name) = match jobs.get(next_job.fetch_add(1, Ordering::SeqCst)) {
+                        Some(job) => job,
+                        None => break,
+                    };
+
+                    let fix = fix_shortcut_file(path, location_name, &downloader, &steam_path, &icons_cache, &app_info, &changes);
+
+                    fixes.lock().unwrap().push(fix.clone());
+                    on_progress(QuickFixProgress {
+                        fix,
+                        completed: completed.fetch_add(1, Ordering::SeqCst) + 1,
+                        total,
+                    });
+                }
+            });
+        }
+    });
+
+    if cancelled.load(Ordering::SeqCst) {
+        eprintln!("Quick fix cancelled after {} of {} shortcuts", completed.load(Ordering::SeqCst), total);
+    }
+
+    Ok(fixes.into_inner().unwrap())
+}
+
+#[tauri::command]
+async fn quick_fix_shortcuts(
+    app: tauri::AppHandle,
+    state: tauri::State<'_, QuickFixState>,
+    paths: Option<Vec<String>>,
+    extra_locations: Vec<String>,
+    download: Option<DownloadSettings>,
+    workers: Option<usize>,
+) -> Result<Vec<ShortcutFix>, String> {
+    let cancelled = state.cancelled.clone();
+    cancelled.store(false, Ordering::SeqCst);
+
+    // Blocking downloads must stay off the async runtime
+    tauri::async_runtime::spawn_blocking(move || {
+        run_quick_fix(
+            paths,
+            &extra_locations,
+            &download.unwrap_or_default(),
+            workers.unwrap_or(DEFAULT_QUICK_FIX_WORKERS),
+            &cancelled,
+            |progress| {
+                let _ = app.emit(QUICK_FIX_PROGRESS_EVENT, progress);
+            },
+        )
+    })
+    .await
+    .map_err(|e| format!("Quick fix failed: {}", e))?
+}
+
+#[tauri::command]
+fn cancel_quick_fix(state: tauri::State<'_, QuickFixState>) {
+    state.cancelled.store(true, Ordering::SeqCst);
+}
+
+#[tauri::command]
+async fn set_tray_agent(app: tauri::AppHandle, enabled: bool, settings: Option<AgentSettings>) -> Result<(), String> {
+    // Stopping waits for a running poll to finish, keep that off the main thread
+    tauri::async_runtime::spawn_blocking(move || {
+        let state = app.state::<AgentState>();
+        match (enabled, settings) {
+            (true, Some(settings)) => agent::start(&app, &state, settings),
+            (true, None) => Err("Tray mode needs a Steam library path".to_string()),
+            (false, _) => {
+                agent::stop(&app, &state);
+                Ok(())
+            }
+        }
+    })
+    .await
+    .map_err(|e| format!("Tray mode failed: {}", e))?
+}
+
+#[tauri::command]
+fn get_agent_history() -> Result<Vec<AgentRecord>, String> {
+    let mut history = agent::load_history()?;
+    history.reverse();
+    Ok(history)
+}
+
+#[tauri::command]
+fn diagnose_shortcuts(steamapps_path: String, extra_locations: Vec<String>) -> Result<Vec<ShortcutDiagnosis>, String> {
+    let (_, icons_cache) = get_icons_cache()?;
+
+    let installed: HashSet<String> = scan_games(steamapps_path, None)?
+        .into_iter()
+        .map(|g| g.app_id)
+        .collect();
+
+    Ok(collect_diagnoses(&installed, &icons_cache, &extra_locations))
+}
+
+#[tauri::command]
+fn plan_shortcut_cleanup(steamapps_path: String, extra_locations: Vec<String>) -> Result<Vec<CleanupGroup>, String> {
+    let (_, icons_cache) = get_icons_cache()?;
+
+    let installed: HashSet<String> = scan_games(steamapps_path, None)?
+        .into_iter()
+        .map(|g| g.app_id)
+        .collect();
+
+    // With a wrong library path every shortcut would look dead
+    if installed.is_empty() {
+        return Err("No installed games found, check the Steam library path first".to_string());
+    }
+
+    Ok(cleanup::plan(collect_diagnoses(&installed, &icons_cache, &extra_locations)))
+}
+
+#[tauri::command]
+fn clean_up_shortcuts(paths: Vec<String>, action: CleanupAction) -> Result<Vec<CleanupResult>, String> {
+    let label = match action {
+        CleanupAction::Delete => "Delete Shortcuts",
+        CleanupAction::Quarantine => "Quarantine Shortcuts",
+    };
+    let changes = ChangeSet::begin(&get_backups_dir()?, label);
+    let quarantine = get_app_data_dir()?.join(SHORTCUT_QUARANTINE_DIR).join(changes.id());
+
+    let results = paths
+        .into_iter()
+        .map(|path| match cleanup::remove_shortcut(Path::new(&path), action, &quarantine, &changes) {
+            Ok(()) => CleanupResult { path, success: true, error: None },
+            Err(e) => {
+                eprintln!("Failed to clean up {}: {}", path, e);
+                CleanupResult { path, success: false, error: Some(e) }
+            }
+        })
+        .collect::<Vec<_>>();
+
+    eprintln!("Cleaned up {} of {} shortcut(s)", results.iter().filter(|r| r.success).count(), results.len());
+    Ok(results)
+}
+
+fn collect_diagnoses(
+    installed: &HashSet<String>,
+    icons_cache: &Path,
+    extra_locations: &[String],
+) -> Vec<ShortcutDiagnosis> {
+    let mut diagnoses = Vec::new();
+
+    for (path, location_name) in find_shortcut_files(extra_locations) {
+        let name = path.file_stem()
+            .and_then(|n| n.to_str())
+            .unwrap_or("Unknown")
+            .to_string();
+
+        let diagnosis = match fs::read_to_string(&path) {
+            Ok(content) if shortcut_extension(&path) == "desktop" => {
+                diagnose_desktop_entry(&content, installed)
+            }
+            Ok(content) => diagnose_url_shortcut(&content, icons_cache, installed),
+            Err(e) => Some((String::new(), ShortcutHealth::Malformed, format!("Failed to read file: {}", e))),
+        };
+
+        // Skip anything that isn't a Steam shortcut at all
+        if let Some((game_id, health, detail)) = diagnosis {
+            diagnoses.push(ShortcutDiagnosis {
+                name,
+                path: path.to_string_lossy().to_string(),
+                game_id,
+                location: location_name,
+                health,
+                detail,
+            });
+        }
+    }
+
+    diagnoses
+}
+
+fn same_directory(a: &Path, b: &Path) -> bool {
+    let normalize = |p: &Path| {
+        p.to_string_lossy()
+            .replace('/', "\\")
+            .trim_end_matches('\\')
+            .to_lowercase()
+    };
+    normalize(a) == normalize(b)
+}
+
+fn diagnose_url_shortcut(
+    content: &str,
+    icons_cache: &Path,
+    installed: &HashSet<String>,
+) -> Option<(String, ShortcutHealth, String)> {
+    let shortcut = match parse_url_shortcut(content) {
+        Ok(shortcut) => shortcut,
+        Err(e) if e == NOT_STEAM_SHORTCUT => return None,
+        Err(e) => {
+            let game_id = steam_game_id(content).unwrap_or_default();
+            // Quick Fix rebuilds a lost IconFile from appinfo.vdf as long as the app is known
+            if installed.contains(&game_id) {
+                return Some((game_id, ShortcutHealth::IconMissing, format!("{}, Quick Fix will look up the icon", e)));
+            }
+            return Some((game_id, ShortcutHealth::Malformed, e));
+        }
+    };
+
+    let icon_dir = PathBuf::from(&shortcut.icon_file)
+        .parent()
+        .map(|p| p.to_path_buf())
+        .unwrap_or_default();
+
+    let (health, detail) = if !installed.contains(&shortcut.game_id) {
+        (ShortcutHealth::NotInstalled, format!("App {} is not installed in any library", shortcut.game_id))
+    } else if !same_directory(&icon_dir, icons_cache) {
+        (ShortcutHealth::IconOutsideCache, format!("IconFile points to {}", shortcut.icon_file))
+    } else if !icons_cache.join(&shortcut.icon_filename).exists() {
+        (ShortcutHealth::IconMissing, format!("{} is not in the icon cache", shortcut.icon_filename))
+    } else if let Err(e) = icons::verify_icon_file(&icons_cache.join(&shortcut.icon_filename)) {
+        (ShortcutHealth::IconMissing, format!("{} in the icon cache is broken: {}", shortcut.icon_filename, e))
+    } else {
+        (ShortcutHealth::Healthy, String::new())
+    };
+
+    Some((shortcut.game_id, health, detail))
+}
+
+fn diagnose_desktop_entry(content: &str, installed: &HashSet<String>) -> Option<(String, ShortcutHealth, String)> {
+    let shortcut = match parse_desktop_shortcut(content) {
+        Ok(shortcut) => shortcut,
+        Err(e) if e == NOT_STEAM_SHORTCUT => return None,
+        Err(e) => {
+            let game_id = steam_game_id(content).unwrap_or_default();
+            return Some((game_id, ShortcutHealth::Malformed, e));
+        }
+    };
+
+    let outside_theme = Path::new(&shortcut.icon).is_absolute()
+        && get_icon_theme_directory()
+            .map(|theme| !Path::new(&shortcut.icon).starts_with(theme))
+            .unwrap_or(true);
+
+    let (health, detail) = if !installed.contains(&shortcut.game_id) {
+        (ShortcutHealth::NotInstalled, format!("App {} is not installed in any library", shortcut.game_id))
+    } else if find_theme_icon(&shortcut.icon).is_none() {
+        (ShortcutHealth::IconMissing, format!("Icon {} was not found", shortcut.icon))
+    } else if outside_theme {
+        (ShortcutHealth::IconOutsideCache, format!("Icon points to {}", shortcut.icon))
+    } else {
+        (ShortcutHealth::Healthy, String::new())
+    };
+
+    Some((shortcut.game_id, health, detail))
+}
+
+fn steam_game_id(content: &str) -> Option<String> {
+    Regex::new(r"steam://rungameid/(\d+)")
+        .ok()?
+        .captures(content)
+        .and_then(|c| c.get(1))
+        .map(|m| m.as_str().to_string())
+}
+
+struct UrlShortcut {
+    game_id: String,
+    icon_file: String,
+    icon_filename: String,
+    client_icon: String,
+}
+
+fn parse_url_shortcut(content: &str) -> Result<UrlShortcut, String> {
+    if !content.contains("steam://rungameid/") {
+        return Err(NOT_STEAM_SHORTCUT.to_string());
+    }
+
+    // Extract game ID
+    let game_id_regex = Regex::new(r"URL=steam://rungameid/(\d+)")
+        .map_err(|_| "Regex error".to_string())?;
+    let game_id = game_id_regex
+        .captures(content)
+        .and_then(|c| c.get(1))
+        .map(|m| m.as_str().to_string())
+        .ok_or("Invalid steam://rungameid URL")?;
+
+    // Extract icon file line to get the icon hash
+    let icon_line_regex = Regex::new(r"IconFile=(.+\.ico)")
+        .map_err(|_| "Regex error".to_string())?;
+    let icon_file = icon_line_regex
+        .captures(content)
+        .and_then(|c| c.get(1))
+        .map(|m| m.as_str().trim().to_string())
+        .ok_or("No icon path found")?;
+
+    // Extract icon filename (just the filename, not full path)
+    let icon_filename = PathBuf::from(icon_file.replace('\\', "/"))
+        .file_name()
+        .and_then(|n| n.to_str())
+        .map(|s| s.to_string())
+        .ok_or("Could not extract icon filename")?;
+
+    // Extract client icon hash from filename
+    let hash_regex = Regex::new(r"^([a-f0-9]+)\.ico$")
+        .map_err(|_| "Regex error".to_string())?;
+    let client_icon = hash_regex
+        .captures(&icon_filename)
+        .and_then(|c| c.get(1))
+        .map(|m| m.as_str().to_string())
+        .ok_or("Could not extract icon hash")?;
+
+    Ok(UrlShortcut {
+        game_id,
+        icon_file,
+        icon_filename,
+        client_icon,
+    })
+}
+
+// Damaged shortcuts often lose their IconFile line, put one back pointing at the cache
+fn rebuild_icon_file(content: &str, icon_path: &Path) -> String {
+    let icon_line = format!("IconFile={}", icon_path.display());
+    let mut lines: Vec<String> = content.lines().map(str::to_string).collect();
+
+    match lines.iter().position(|line| line.trim_start().starts_with("IconFile=")) {
+        Some(index) => lines[index] = icon_line,
+        None => {
+            let after_url = lines.iter()
+                .position(|line| line.trim_start().starts_with("URL="))
+                .map(|index| index + 1)
+                .unwrap_or(lines.len());
+            lines.insert(after_url, icon_line);
+        }
+    }
+
+    lines.join("\r\n") + "\r\n"
+}
+
+fn process_shortcut(
+    file_path: &Path,
+    downloader: &IconDownloader,
+    steam_path: &Path,
+    icons_cache: &Path,
+    app_info: &AppInfo,
+    location: &str,
+    changes: &ChangeSet,
+) -> Result<ShortcutFix, String> {
+    let mut content = fs::read_to_string(file_path)
+        .map_err(|e| format!("Failed to read file: {}", e))?;
+
+    // Without a usable IconFile, take the icon hash Steam keeps for the app in appinfo.vdf
+    let mut rebuilt = false;
+    if let Err(e) = parse_url_shortcut(&content) {
+        if e == NOT_STEAM_SHORTCUT {
+            return Err(e);
+        }
+        let game_id = steam_game_id(&content).ok_or(e.clone())?;
+        let client_icon = app_info
+            .client_icon(&game_id)
+            .ok_or_else(|| format!("{}, and appinfo.vdf has no icon for app {}", e, game_id))?;
+
+        content = rebuild_icon_file(&content, &icons_cache.join(format!("{}.ico", client_icon)));
+        rebuilt = true;
+    }
+
+    let UrlShortcut { game_id, icon_file, icon_filename, client_icon } = parse_url_shortcut(&content)?;
+
+    let icon_url = downloader.icon_url(&game_id, &client_icon);
+
+    // Fill the central cache, from local artwork when possible
+    let cache_icon_path = icons_cache.join(&icon_filename);
+    let source = icons::ensure_cached_icon(downloader, changes, steam_path, icons_cache, &game_id, &client_icon, &icon_filename)?;
+
+    // Point shortcuts whose IconFile lives elsewhere back at the cache
+    let icon_dir = PathBuf::from(icon_file.replace('\\', "/"))
+        .parent()
+        .map(|p| p.to_path_buf())
+        .unwrap_or_default();
+    if rebuilt || !same_directory(&icon_dir, icons_cache) {
+        let updated = content.replace(
+            &format!("IconFile={}", icon_file),
+            &format!("IconFile={}", cache_icon_path.display()),
+        );
+        changes.before_write(file_path)?;
+        fs::write(file_path, updated)
+            .map_err(|e| format!("Failed to update IconFile: {}", e))?;
+    }
+
+    Ok(ShortcutFix {
+        name: file_path
+            .file_stem()
+            .and_then(|n| n.to_str())
+            .unwrap_or("Unknown")
+            .to_string(),
+        game_id,
+        icon_url,
+        location: location.to_string(),
+        path: file_path.to_string_lossy().to_string(),
+        success: true,
+        error: None,
+        source: Some(source),
+    })
+}
+
+fn get_icon_theme_directory() -> Option<PathBuf> {
+    let home = std::env::var("HOME").ok()?;
+    Some(PathBuf::from(home).join(".local").join("share").join("icons").join("hicolor"))
+}
+
+fn read_desktop_entry(content: &str) -> HashMap<String, String> {
+    let mut values = HashMap::new();
+    let mut in_main_section = false;
+
+    for line in content.lines() {
+        let line = line.trim();
+
+        if line.starts_with('[') {
+            in_main_section = line == "[Desktop Entry]";
+        } else if in_main_section && !line.starts_with('#') {
+            if let Some((key, value)) = line.split_once('=') {
+                values.insert(key.trim().to_string(), value.trim().to_string());
+            }
+        }
+    }
+
+    values
+}
+
+fn find_theme_icon(icon: &str) -> Option<PathBuf> {
+    if Path::new(icon).is_absolute() {
+        return Some(PathBuf::from(icon)).filter(|p| p.exists());
+    }
+
+    let theme_dir = get_icon_theme_directory()?;
+
+    for size_dir in fs::read_dir(&theme_dir).ok()?.flatten() {
+        let apps_dir = size_dir.path().join("apps");
+        for extension in ["png", "svg", "xpm"] {
+            let candidate = apps_dir.join(format!("{}.{}", icon, extension));
+            if candidate.exists() {
+                return Some(candidate);
+            }
+        }
+    }
+
+    None
+}
+
+fn restore_theme_icon(steam_path: &Path, app_id: &str, icon: &str, changes: &ChangeSet) -> Result<PathBuf, String> {
+    let source = icons::find_library_cache_icon(steam_path, app_id, None)
+        .ok_or("Icon missing and no cached artwork found in librarycache")?;
+
+    let target = if Path::new(icon).is_absolute() {
+        PathBuf::from(icon)
+    } else {
+        get_icon_theme_directory()
+            .ok_or("Could not determine icon theme directory")?
+            .join("32x32")
+            .join("apps")
+            .join(format!("{}.png", icon))
+    };
+
+    if let Some(parent) = target.parent() {
+        fs::create_dir_all(parent)
+            .map_err(|e| format!("Failed to create icon directory: {}", e))?;
+    }
+
+    let image = image::open(&source)
+        .map_err(|e| format!("Failed to read cached artwork: {}", e))?;
+    changes.before_write(&target)?;
+    image
+        .resize_exact(32, 32, image::imageops::FilterType::Lanczos3)
+        .save(&target)
+        .map_err(|e| format!("Failed to write icon: {}", e))?;
+
+    Ok(target)
+}
+
+struct DesktopShortcut {
+    name: Option<String>,
+    game_id: String,
+    icon: String,
+}
+
+fn parse_desktop_shortcut(content: &str) -> Result<DesktopShortcut, String> {
+    let mut entry = read_desktop_entry(content);
+
+    // Extract game ID
+    let game_id = entry
+        .get("Exec")
+        .and_then(|exec| steam_game_id(exec))
+        .ok_or(NOT_STEAM_SHORTCUT)?;
+
+    let icon = entry
+        .remove("Icon")
+        .filter(|icon| !icon.is_empty())
+        .ok_or("No icon name found")?;
+
+    Ok(DesktopShortcut {
+        name: entry.remove("Name"),
+        game_id,
+        icon,
+    })
+}
+
+fn process_desktop_entry(file_path: &Path, steam_path: &Path, location: &str, changes: &ChangeSet) -> Result<ShortcutFix, String> {
+    let content = fs::read_to_string(file_path)
+        .map_err(|e| format!("Failed to read file: {}", e))?;
+
+    let DesktopShortcut { name, game_id, icon } = parse_desktop_shortcut(&content)?;
+
+    let (icon_path, source) = match find_theme_icon(&icon) {
+        Some(path) => (path, IconSource::Existing),
+        None => (restore_theme_icon(steam_path, &game_id, &icon, changes)?, IconSource::LibraryCache),
+    };
+
+    Ok(ShortcutFix {
+        name: name
+            .or_else(|| file_path.file_stem().and_then(|n| n.to_str()).map(|s| s.to_string()))
+            .unwrap_or_else(|| "Unknown".to_string()),
+        game_id,
+        icon_url: icon_path.to_string_lossy().to_string(),
+        location: location.to_string(),
+        path: file_path.to_string_lossy().to_string(),
+        success: true,
+        error: None,
+        source: Some(source),
+    })
+}
+
+fn sanitize_file_name(name: &str) -> String {
+    let cleaned: String = name
+        .chars()
+        .filter(|c| !c.is_control() && !matches!(c, '<' | '>' | ':' | '"' | '/' | '\\' | '|' | '?' | '*'))
+        .collect();
+
+    // Windows rejects names ending in a dot or space
+    let cleaned = cleaned.trim().trim_end_matches(['.', ' ']).to_string();
+
+    let reserved = [
+        "CON", "PRN", "AUX", "NUL",
+        "COM1", "COM2", "COM3", "COM4", "COM5", "COM6", "COM7", "COM8", "COM9",
+        "LPT1", "LPT2", "LPT3", "LPT4", "LPT5", "LPT6", "LPT7", "LPT8", "LPT9",
+    ];
+
+    if cleaned.is_empty() || reserved.iter().any(|r| r.eq_ignore_ascii_case(&cleaned)) {
+        format!("{}_", cleaned)
+    } else {
+        cleaned
+    }
+}
+
+fn get_desktop_directory() -> Option<PathBuf> {
+    #[cfg(target_os = "windows")]
+    {
+        if let Some(desktop) = get_redirected_desktop().filter(|p| p.exists()) {
+            return Some(desktop);
+        }
+    }
+
+    let userprofile = std::env::var("USERPROFILE").ok()?;
+    let desktop = PathBuf::from(&userprofile).join("Desktop");
+    let onedrive_desktop = PathBuf::from(&userprofile).join("OneDrive").join("Desktop");
+
+    if !desktop.exists() && onedrive_desktop.exists() {
+        Some(onedrive_desktop)
+    } else {
+        Some(desktop)
+    }
+}
+
+fn get_start_menu_directory() -> Option<PathBuf> {
+    let appdata = std::env::var("APPDATA").ok()?;
+    Some(PathBuf::from(appdata).join("Microsoft\\Windows\\Start Menu\\Programs\\Steam"))
+}
+
+// Icon hashes already used by existing shortcuts, keyed by app ID, scanned once per run
+fn existing_icon_hashes(extra_locations: &[String]) -> HashMap<String, String> {
+    let mut hashes = HashMap::new();
+    for (path, _) in find_shortcut_files(extra_locations) {
+        if shortcut_extension(&path) != "url" {
+            continue;
+        }
+        let Some(shortcut) = fs::read_to_string(&path).ok().and_then(|content| parse_url_shortcut(&content).ok()) else {
+            continue;
+        };
+        if let Some(hash) = shortcut.icon_filename.strip_suffix(".ico") {
+            hashes.entry(shortcut.game_id).or_insert_with(|| hash.to_string());
+        }
+    }
+    hashes
+}
+
+fn write_url_shortcut(shortcut_path: &Path, app_id: &str, icon_path: &Path, changes: &ChangeSet) -> Result<(), String> {
+    if shortcut_path.exists() {
+        return Err("Shortcut already exists".to_string());
+    }
+
+    if let Some(parent) = shortcut_path.parent() {
+        fs::create_dir_all(parent)
+            .map_err(|e| format!("Failed to create folder: {}", e))?;
+    }
+
+    let content = format!(
+        "[{{000214A0-0000-0000-C000-000000000046}}]\r\nProp3=19,0\r\n[InternetShortcut]\r\nIDList=\r\nIconIndex=0\r\nURL=steam://rungameid/{}\r\nIconFile={}\r\n",
+        app_id,
+        icon_path.display()
+    );
+
+    changes.before_write(shortcut_path)?;
+    fs::write(shortcut_path, content)
+        .map_err(|e| format!("Failed to write shortcut: {}", e))
+}
+
+#[tauri::command]
+async fn create_shortcuts(
+    games: Vec<Game>,
+    desktop: bool,
+    start_menu: bool,
+    download: Option<DownloadSettings>,
+    extra_locations: Vec<String>,
+) -> Result<Vec<CreatedShortcut>, String> {
+    // Icons may have to be downloaded
+    tauri::async_runtime::spawn_blocking(move || {
+        write_shortcuts(games, desktop, start_menu, &download.unwrap_or_default(), &extra_locations)
+    })
+    .await
+    .map_err(|e| format!("Creating shortcuts failed: {}", e))?
+}
+
+fn write_shortcuts(
+    games: Vec<Game>,
+    desktop: bool,
+    start_menu: bool,
+    download: &DownloadSettings,
+    extra_locations: &[String],
+) -> Result<Vec<CreatedShortcut>, String> {
+    if !desktop && !start_menu {
+        return Err("No shortcut location selected".to_string());
+    }
+
+    let steam_path = find_steam_install_directory()?;
+    let icons_cache = steam_path.join("steam").join("games");
+    let downloader = IconDownloader::new(download)?;
+    let app_info = AppInfo::new(&steam_path);
+    let existing_icons = existing_icon_hashes(extra_locations);
+
+    let mut targets = Vec::new();
+    if desktop {
+        targets.push(("Desktop", get_desktop_directory().ok_or("Could not find Desktop folder")?));
+    }
+    if start_menu {
+        targets.push(("Start Menu", get_start_menu_directory().ok_or("Could not find Start Menu folder")?));
+    }
+
+    let changes = ChangeSet::begin(&get_backups_dir()?, "Create Shortcuts");
+    let mut created = Vec::new();
+
+    for game in games {
+        let file_name = format!("{}.url", sanitize_file_name(&game.name));
+        let client_icon = existing_icons
+            .get(&game.app_id)
+            .cloned()
+            .or_else(|| app_info.client_icon(&game.app_id));
+
+        // Steam only serves icons by hash, a made-up file name would stay blank forever
+        let Some(client_icon) = client_icon else {
+            for (location, directory) in &targets {
+                created.push(CreatedShortcut {
+                    name: game.name.clone(),
+                    app_id: game.app_id.clone(),
+                    location: location.to_string(),
+                    path: directory.join(&file_name).to_string_lossy().to_string(),
+                    success: false,
+                    error: Some("No icon hash found in existing shortcuts or appinfo.vdf, launch the game once from Steam and try again".to_string()),
+                });
+            }
+            continue;
+        };
+
+        // Cache the icon now so the new shortcut does not start out blank
+        let icon_file = format!("{}.ico", client_icon);
+        if let Err(e) = icons::ensure_cached_icon(&downloader, &changes, &steam_path, &icons_cache, &game.app_id, &client_icon, &icon_file) {
+            eprintln!("No icon for {}: {}", game.name, e);
+        }
+        let icon_path = icons_cache.join(icon_file);
+
+        for (location, directory) in &targets {
+            let shortcut_path = directory.join(&file_name);
+            let result = write_url_shortcut(&shortcut_path, &game.app_id, &icon_path, &changes);
+
+            eprintln!("Create {:?}: {:?}", shortcut_path, result);
+            created.push(CreatedShortcut {
+                name: game.name.clone(),
+                app_id: game.app_id.clone(),
+                location: location.to_string(),
+                path: shortcut_path.to_string_lossy().to_string(),
+                success: result.is_ok(),
+                error: result.err(),
+            });
+        }
+    }
+
+    Ok(created)
+}
+
+// loginusers.vdf is keyed by 64-bit SteamID, userdata folders by the 32-bit account ID
+const STEAM_ID64_BASE: u64 = 76561197960265728;
+
+fn get_account_names(steam_path: &Path) -> HashMap<String, String> {
+    let mut names = HashMap::new();
+
+    if let Ok(root) = vdf::parse_file(&steam_path.join("config").join("loginusers.vdf")) {
+        if let Some(users) = root.get_obj("users") {
+            for (steam_id, user) in users.iter() {
+                if let (Ok(steam_id), Some(user)) = (steam_id.parse::<u64>(), user.as_obj()) {
+                    let name = user.get_str("PersonaName").or_else(|| user.get_str("AccountName"));
+                    if let Some(name) = name {
+                        names.insert(steam_id.saturating_sub(STEAM_ID64_BASE).to_string(), name.to_string());
+                    }
+                }
+            }
+        }
+    }
+
+    names
+}
+
+fn get_shortcuts_vdf_files(steam_path: &Path) -> Vec<(String, PathBuf)> {
+    let mut files = Vec::new();
+
+    if let Ok(entries) = fs::read_dir(steam_path.join("userdata")) {
+        for entry in entries.flatten() {
+            let account_id = entry.file_name().to_string_lossy().to_string();
+            let shortcuts_file = entry.path().join("config").join("shortcuts.vdf");
+
+            if account_id.chars().all(|c| c.is_ascii_digit()) && shortcuts_file.exists() {
+                files.push((account_id, shortcuts_file));
+            }
+        }
+    }
+
+    files
+}
+
+// Steam stores Exe and StartDir wrapped in quotes
+fn unquote(value: &str) -> &str {
+    value.trim().trim_matches('"')
+}
+
+fn path_missing(value: &str) -> bool {
+    let path = Path::new(unquote(value));
+    path.is_absolute() && !path.exists()
+}
+
+#[tauri::command]
+fn scan_non_steam_shortcuts() -> Result<Vec<NonSteamShortcut>, String> {
+    let steam_path = find_steam_install_directory()?;
+    let account_names = get_account_names(&steam_path);
+    let mut shortcuts = Vec::new();
+
+    for (account_id, file) in get_shortcuts_vdf_files(&steam_path) {
+        eprintln!("Reading: {:?}", file);
+
+        let root = match fs::read(&file).map_err(|e| e.to_string()).and_then(|b| vdf::parse_binary(&b)) {
+            Ok(root) => root,
+            Err(e) => {
+                eprintln!("Failed {}: {}", file.display(), e);
+                continue;
+            }
+        };
+
+        let entries = match root.get_obj("shortcuts") {
+            Some(entries) => entries,
+            None => continue,
+        };
+
+        for (index, entry) in entries.iter() {
+            let entry = match entry.as_obj() {
+                Some(entry) => entry,
+                None => continue,
+            };
+
+            let exe = entry.get_str("Exe").unwrap_or_default().to_string();
+            let icon = entry.get_str("icon").unwrap_or_default().to_string();
+
+            shortcuts.push(NonSteamShortcut {
+                account_id: account_id.clone(),
+                account_name: account_names.get(&account_id).cloned().unwrap_or_else(|| account_id.clone()),
+                index: index.to_string(),
+                app_id: entry.get_u64("appid").unwrap_or(0) as u32,
+                app_name: entry.get_str("AppName").unwrap_or_default().to_string(),
+                start_dir: entry.get_str("StartDir").unwrap_or_default().to_string(),
+                launch_options: entry.get_str("LaunchOptions").unwrap_or_default().to_string(),
+                exe_missing: exe.is_empty() || path_missing(&exe),
+                icon_missing: !icon.is_empty() && path_missing(&icon),
+                exe,
+                icon,
+            });
+        }
+    }
+
+    eprintln!("Found {} non-Steam shortcuts", shortcuts.len());
+    Ok(shortcuts)
+}
+
+// Write next to the original and swap it in, keeping the previous version as .bak
+fn replace_file_safely(path: &Path, bytes: &[u8], changes: &ChangeSet) -> Result<(), String> {
+    let temp_path = path.with_extension("vdf.tmp");
+    let backup_path = path.with_extension("vdf.bak");
+
+    changes.before_write(&backup_path)?;
+    changes.before_write(path)?;
+
+    fs::write(&temp_path, bytes)
+        .map_err(|e| format!("Failed to write {}: {}", temp_path.display(), e))?;
+
+    if let Err(e) = fs::copy(path, &backup_path) {
+        let _ = fs::remove_file(&temp_path);
+        return Err(format!("Failed to back up {}: {}", path.display(), e));
+    }
+
+    fs::rename(&temp_path, path)
+        .map_err(|e| format!("Failed to replace {}: {}", path.display(), e))
+}
+
+#[tauri::command]
+fn update_non_steam_shortcut(
+    account_id: String,
+    index: String,
+    exe: Option<String>,
+    icon: Option<String>,
+) -> Result<(), String> {
+    let steam_path = find_steam_install_directory()?;
+    let file = steam_path
+        .join("userdata")
+        .join(&account_id)
+        .join("config")
+        .join("shortcuts.vdf");
+
+    let bytes = fs::read(&file)
+        .map_err(|e| format!("Failed to read {}: {}", file.display(), e))?;
+    let mut root = vdf::parse_binary(&bytes)?;
+
+    let entry = root
+        .get_obj_mut("shortcuts")
+        .and_then(|shortcuts| shortcuts.get_obj_mut(&index))
+        .ok_or("Shortcut not found in shortcuts.vdf")?;
+
+    if let Some(exe) = exe {
+        let exe_path = PathBuf::from(unquote(&exe));
+        if !exe_path.is_file() {
+            return Err(format!("{} does not exist", exe_path.display()));
+        }
+
+        entry.set("Exe", vdf::Value::Str(format!("\"{}\"", exe_path.display())));
+
+        // A moved game usually takes its working directory with it
+        let start_dir_missing = entry
+            .get_str("StartDir")
+            .map(|dir| unquote(dir).is_empty() || !Path::new(unquote(dir)).exists())
+            .unwrap_or(true);
+        if start_dir_missing {
+            if let Some(parent) = exe_path.parent() {
+                entry.set("StartDir", vdf::Value::Str(format!("\"{}\"", parent.display())));
+            }
+        }
+    }
+
+    if let Some(icon) = icon {
+        let icon = unquote(&icon).to_string();
+        if !icon.is_empty() && !Path::new(&icon).is_file() {
+            return Err(format!("{} does not exist", icon));
+        }
+
+        entry.set("icon", vdf::Value::Str(icon));
+    }
+
+    // Make sure the output reads back identically before replacing Steam's file
+    let output = vdf::write_binary(&root);
+    if vdf::parse_binary(&output)? != root {
+        return Err("Refusing to write shortcuts.vdf: verification failed".to_string());
+    }
+
+    let changes = ChangeSet::begin(&get_backups_dir()?, "Edit Non-Steam Shortcut");
+    replace_file_safely(&file, &output, &changes)
+}
+
+const APP_IDENTIFIER: &str = "com.steam.shortcutfixer";
+const TEMP_RENAME_SUFFIX: &str = "_temp_rename";
+
+// Same folder Tauri resolves as app_data_dir, usable without an AppHandle
+fn get_app_data_dir() -> Result<PathBuf, String> {
+    #[cfg(target_os = "windows")]
+    let base = std::env::var("APPDATA").ok().map(PathBuf::from);
+
+    #[cfg(target_os = "macos")]
+    let base = std::env::var("HOME")
+        .ok()
+        .map(|home| PathBuf::from(home).join("Library").join("Application Support"));
+
+    #[cfg(not(any(target_os = "windows", target_os = "macos")))]
+    let base = std::env::var("XDG_DATA_HOME")
+        .ok()
+        .filter(|dir| !dir.is_empty())
+        .map(PathBuf::from)
+        .or_else(|| std::env::var("HOME").ok().map(|home| PathBuf::from(home).join(".local").join("share")));
+
+    base.map(|dir| dir.join(APP_IDENTIFIER))
+        .ok_or_else(|| "Could not determine the app data directory".to_string())
+}
+
+fn get_journal_dir() -> Result<PathBuf, String> {
+    Ok(get_app_data_dir()?.join("repair-journal"))
+}
+
+fn get_backups_dir() -> Result<PathBuf, String> {
+    Ok(get_app_data_dir()?.join("backups"))
+}
+
+const SHORTCUT_QUARANTINE_DIR: &str = "quarantine";
+
+// Deep Repair renames all land in the change-set the journal points at
+fn repair_change_set(journal: &mut RepairJournal) -> Result<ChangeSet, String> {
+    let backups_dir = get_backups_dir()?;
+    let label = format!("Deep Repair: {}", journal.name);
+
+    let changes = match &journal.run_id {
+        Some(id) => ChangeSet::resume(&backups_dir, id, &label),
+        None => ChangeSet::begin(&backups_dir, &label),
+    };
+    journal.run_id = Some(changes.id());
+
+    Ok(changes)
+}
+
+#[tauri::command]
+fn rename_game_folder(steamapps_path: String, game_path: String, app_id: String, name: String) -> Result<String, String> {
+    let journal_dir = get_journal_dir()?;
+    if let Ok(existing) = journal::load(&journal_dir, &app_id) {
+        if existing.temp_exists {
+            return Err(format!("{} already has an unfinished Deep Repair, resume or roll it back first", existing.name));
+        }
+    }
+
+    let libraries = get_steam_library_folders(&steamapps_path);
+    
+    for library in libraries {
+        let common_path = library.join("common");
+        let original = common_path.join(&game_path);
         
-        if temp.exists() {
-            let original = common_path.join(temp_name.trim_end_matches("_temp_rename"));
-            fs::rename(&temp, &original)
-                .map_err(|e| format!("Failed to revert folder: {}", e))?;
-            return Ok(());
+        if original.exists() {
+            let temp = common_path.join(format!("{}{}", game_path, TEMP_RENAME_SUFFIX));
+            if temp.exists() {
+                return Err(format!("{} already exists", temp.display()));
+            }
+
+            // The journal goes to disk first so a crash mid-rename can still be traced
+            let mut journal = RepairJournal::new(&app_id, &name, &library, &original, &temp);
+            let changes = repair_change_set(&mut journal)?;
+            journal::save(&journal_dir, &journal)?;
+            changes.before_rename(&original, &temp)?;
+
+            if let Err(e) = fs::rename(&original, &temp) {
+                let _ = journal::remove(&journal_dir, &app_id);
+                return Err(format!("Failed to rename folder: {}", e));
+            }
+
+            journal.advance(RepairStep::Renamed);
+            journal::save(&journal_dir, &journal)?;
+            return Ok(format!("{}{}", game_path, TEMP_RENAME_SUFFIX));
         }
     }
     
-    Err("Temp folder not found in any library".to_string())
+    Err("Game folder not found in any library".to_string())
+}
+
+#[tauri::command]
+fn revert_game_folder(app_id: String) -> Result<(), String> {
+    let journal_dir = get_journal_dir()?;
+    let mut journal = journal::load(&journal_dir, &app_id)?;
+
+    if !journal.temp_exists {
+        return Err(format!("Temp folder {} no longer exists", journal.temp_path));
+    }
+    if journal.original_exists {
+        return Err(format!("{} already exists, refusing to overwrite it", journal.original_path));
+    }
+
+    let changes = repair_change_set(&mut journal)?;
+    changes.before_rename(Path::new(&journal.temp_path), Path::new(&journal.original_path))?;
+    fs::rename(&journal.temp_path, &journal.original_path)
+        .map_err(|e| format!("Failed to revert folder: {}", e))?;
+
+    journal.advance(RepairStep::Restored);
+    journal::save(&journal_dir, &journal)
+}
+
+#[tauri::command]
+fn get_unfinished_repairs() -> Result<Vec<RepairJournal>, String> {
+    Ok(journal::list(&get_journal_dir()?))
+}
+
+#[tauri::command]
+fn update_repair_step(app_id: String, step: RepairStep) -> Result<(), String> {
+    let journal_dir = get_journal_dir()?;
+    let mut journal = journal::load(&journal_dir, &app_id)?;
+
+    journal.advance(step);
+    journal::save(&journal_dir, &journal)
+}
+
+#[tauri::command]
+fn complete_repair(app_id: String) -> Result<(), String> {
+    journal::remove(&get_journal_dir()?, &app_id)
+}
+
+// Puts the folder back where it was. restore_as picks another folder name in the
+// same library when the original name has been taken in the meantime
+#[tauri::command]
+fn rollback_repair(app_id: String, restore_as: Option<String>) -> Result<String, String> {
+    let journal_dir = get_journal_dir()?;
+    let mut journal = journal::load(&journal_dir, &app_id)?;
+
+    if !journal.temp_exists {
+        // Nothing left on disk to move, the journal is all that remains
+        journal::remove(&journal_dir, &app_id)?;
+        return Ok(journal.original_path);
+    }
+
+    let target = match restore_as.as_deref().map(str::trim) {
+        Some(folder_name) => {
+            // sanitize_file_name never returns an empty name, so check what the user typed
+            if folder_name.is_empty() {
+                return Err("Folder name cannot be empty".to_string());
+            }
+            let folder_name = sanitize_file_name(folder_name);
+            Path::new(&journal.temp_path)
+                .parent()
+                .ok_or("Invalid temp folder path")?
+                .join(folder_name)
+        }
+        None => PathBuf::from(&journal.original_path),
+    };
+
+    if target.exists() {
+        return Err(format!("{} already exists, refusing to overwrite it", target.display()));
+    }
+
+    let changes = repair_change_set(&mut journal)?;
+    changes.before_rename(Path::new(&journal.temp_path), &target)?;
+    fs::rename(&journal.temp_path, &target)
+        .map_err(|e| format!("Failed to roll back: {}", e))?;
+    journal::remove(&journal_dir, &app_id)?;
+
+    eprintln!("Rolled back {} to {}", journal.name, target.display());
+    Ok(target.to_string_lossy().to_string())
+}
+
+// appmanifest StateFlags bits that show Steam has picked the game back up
+const STATE_UPDATE_REQUIRED: u32 = 2;
+const STATE_FULLY_INSTALLED: u32 = 4;
+const STATE_UPDATE_RUNNING: u32 = 256;
+const STATE_UPDATE_STARTED: u32 = 1024;
+const STATE_VALIDATING: u32 = 131072;
+const STATE_ADDING_FILES: u32 = 262144;
+const STATE_PREALLOCATING: u32 = 524288;
+const STATE_DOWNLOADING: u32 = 1048576;
+const INSTALL_STATE_FLAGS: u32 = STATE_UPDATE_REQUIRED
+    | STATE_FULLY_INSTALLED
+    | STATE_UPDATE_RUNNING
+    | STATE_UPDATE_STARTED
+    | STATE_VALIDATING
+    | STATE_ADDING_FILES
+    | STATE_PREALLOCATING
+    | STATE_DOWNLOADING;
+
+const MANIFEST_POLL_INTERVAL_MS: u64 = 1000;
+const DEFAULT_MANIFEST_TIMEOUT_SECS: u64 = 600;
+
+#[derive(Debug, Deserialize, Clone, Copy, PartialEq)]
+#[serde(rename_all = "snake_case")]
+enum ManifestWait {
+    Uninstalled,
+    Installing,
+}
+
+// Every wait gets its own flag, a late cancel must never stop the wait that replaced it
+#[derive(Default)]
+struct ManifestWaitState {
+    waits: Mutex<HashMap<u32, Arc<AtomicBool>>>,
+}
+
+fn read_state_flags(manifest_path: &Path) -> Option<u32> {
+    let root = vdf::parse_file(manifest_path).ok()?;
+    root.get_obj("AppState")?
+        .get_u64("StateFlags")
+        .map(|flags| flags as u32)
+}
+
+// Steam may reinstall into any library the user picks, so every library is checked
+fn manifest_wait_done(libraries: &[PathBuf], app_id: &str, until: ManifestWait) -> bool {
+    let manifests = libraries
+        .iter()
+        .map(|library| library.join(format!("appmanifest_{}.acf", app_id)))
+        .filter(|manifest| manifest.exists());
+
+    match until {
+        ManifestWait::Uninstalled => manifests.count() == 0,
+        ManifestWait::Installing => manifests
+            .filter_map(|manifest| read_state_flags(&manifest))
+            .any(|flags| flags & INSTALL_STATE_FLAGS != 0),
+    }
+}
+
+// Resolves true once Steam is done, false on timeout or when the user continued manually
+#[tauri::command]
+async fn wait_for_manifest(
+    state: tauri::State<'_, ManifestWaitState>,
+    wait_id: u32,
+    steamapps_path: String,
+    app_id: String,
+    until: ManifestWait,
+    timeout_secs: Option<u64>,
+) -> Result<bool, String> {
+    let cancelled = Arc::new(AtomicBool::new(false));
+    state.waits.lock().unwrap().insert(wait_id, cancelled.clone());
+
+    let result = tauri::async_runtime::spawn_blocking(move || {
+        let libraries = get_steam_library_folders(&steamapps_path);
+        let timeout = std::time::Duration::from_secs(timeout_secs.unwrap_or(DEFAULT_MANIFEST_TIMEOUT_SECS));
+        let started = std::time::Instant::now();
+
+        while !cancelled.load(Ordering::SeqCst) {
+            if manifest_wait_done(&libraries, &app_id, until) {
+                eprintln!("Manifest for {} reached {:?}", app_id, until);
+                return true;
+            }
+            if started.elapsed() >= timeout {
+                eprintln!("Timed out waiting for {} to reach {:?}", app_id, until);
+                return false;
+            }
+            std::thread::sleep(std::time::Duration::from_millis(MANIFEST_POLL_INTERVAL_MS));
+        }
+
+        false
+    })
+    .await
+    .map_err(|e| format!("Failed to watch manifest: {}", e));
+
+    state.waits.lock().unwrap().remove(&wait_id);
+    result
+}
+
+#[tauri::command]
+fn cancel_manifest_wait(state: tauri::State<'_, ManifestWaitState>, wait_id: u32) {
+    if let Some(cancelled) = state.waits.lock().unwrap().get(&wait_id) {
+        cancelled.store(true, Ordering::SeqCst);
+    }
+}
+
+#[tauri::command]
+fn list_change_sets() -> Result<Vec<ChangeSetInfo>, String> {
+    Ok(backup::list(&get_backups_dir()?))
+}
+
+#[tauri::command]
+fn undo_change_set(run_id: String) -> Result<UndoReport, String> {
+    backup::undo(&get_backups_dir()?, &run_id)
+}
+
+#[tauri::command]
+fn prune_backups(max_age_days: u64, max_size_mb: u64) -> Result<usize, String> {
+    Ok(backup::prune(&get_backups_dir()?, max_age_days, max_size_mb))
+}
+
+#[tauri::command]
+fn export_report(
+    path: String,
+    format: ReportFormat,
+    steamapps_path: String,
+    games: Vec<Game>,
+    fixes: Vec<ShortcutFix>,
+) -> Result<(), String> {
+    let steam_path = find_steam_install_directory()
+        .ok()
+        .map(|p| p.to_string_lossy().to_string());
+    let libraries = get_steam_library_folders(&steamapps_path)
+        .iter()
+        .map(|p| p.to_string_lossy().to_string())
+        .collect();
+
+    report::write(&Report::new(steam_path, libraries, games, fixes), format, Path::new(&path))
 }
 
 #[tauri::command]
@@ -397,10 +1967,259 @@ fn open_steam_url(url: String) -> Result<(), String> {
     Ok(())
 }
 
+const ARTWORK_PROTOCOL: &str = "artwork";
+
+// A screen of thumbnails would otherwise run Steam detection once per game
+#[derive(Default)]
+struct ArtworkState {
+    steam_path: Mutex<Option<Result<PathBuf, String>>>,
+}
+
+impl ArtworkState {
+    fn steam_path(&self) -> Option<PathBuf> {
+        self.steam_path
+            .lock()
+            .unwrap()
+            .get_or_insert_with(find_steam_install_directory)
+            .clone()
+            .ok()
+    }
+
+    // Picking another install in Settings points the thumbnails at its librarycache
+    fn forget_steam_path(&self) {
+        *self.steam_path.lock().unwrap() = None;
+    }
+}
+
+// artwork://localhost/<appid> is answered from librarycache only, the list never goes online for thumbnails
+fn artwork_response(state: &ArtworkState, path: &str) -> tauri::http::Response<Vec<u8>> {
+    let app_id = path.trim_start_matches('/');
+    let artwork = if !app_id.is_empty() && app_id.chars().all(|c| c.is_ascii_digit()) {
+        state
+            .steam_path()
+            .and_then(|steam_path| icons::find_library_artwork(&steam_path, app_id))
+            .and_then(|path| fs::read(&path).ok().map(|bytes| (path, bytes)))
+    } else {
+        None
+    };
+
+    let Some((path, bytes)) = artwork else {
+        return tauri::http::Response::builder()
+            .status(404)
+            .body(Vec::new())
+            .unwrap_or_default();
+    };
+
+    let extension = path.extension().and_then(|e| e.to_str()).unwrap_or_default().to_ascii_lowercase();
+    let content_type = match extension.as_str() {
+        "png" => "image/png",
+        "ico" => "image/x-icon",
+        _ => "image/jpeg",
+    };
+
+    tauri::http::Response::builder()
+        .header("Content-Type", content_type)
+        .header("Cache-Control", "max-age=3600")
+        .body(bytes)
+        .unwrap_or_default()
+}
+
+// Icons are claimed by installed games through librarycache, and by every .url shortcut naming them
+fn icon_owners(steamapps_path: String, steam_path: &Path, extra_locations: &[String]) -> Result<HashMap<String, IconOwner>, String> {
+    let games = scan_games(steamapps_path, None)?;
+    let installed: HashSet<String> = games.iter().map(|g| g.app_id.clone()).collect();
+    let mut owners = HashMap::new();
+
+    for game in &games {
+        for hash in icon_cache::library_icon_hashes(steam_path, &game.app_id) {
+            owners.insert(hash, IconOwner {
+                app_id: game.app_id.clone(),
+                name: game.name.clone(),
+                installed: true,
+                shortcuts: 0,
+            });
+        }
+    }
+
+    for (path, _) in find_shortcut_files(extra_locations) {
+        if shortcut_extension(&path) != "url" {
+            continue;
+        }
+
+        let shortcut = match fs::read_to_string(&path).map(|content| parse_url_shortcut(&content)) {
+            Ok(Ok(shortcut)) => shortcut,
+            _ => continue,
+        };
+
+        owners
+            .entry(shortcut.client_icon.to_lowercase())
+            .or_insert_with(|| IconOwner {
+                installed: installed.contains(&shortcut.game_id),
+                app_id: shortcut.game_id.clone(),
+                name: path.file_stem().and_then(|n| n.to_str()).unwrap_or("Unknown").to_string(),
+                shortcuts: 0,
+            })
+            .shortcuts += 1;
+    }
+
+    Ok(owners)
+}
+
+#[derive(Debug, Serialize, Clone)]
+struct IconRefresh {
+    file_name: String,
+    success: bool,
+    error: Option<String>,
+    source: Option<IconSource>,
+}
+
+#[tauri::command]
+async fn list_cached_icons(steamapps_path: String, extra_locations: Vec<String>) -> Result<Vec<CachedIcon>, String> {
+    // Every icon is read back to verify it
+    tauri::async_runtime::spawn_blocking(move || {
+        let (steam_path, icons_cache) = get_icons_cache()?;
+        let owners = icon_owners(steamapps_path, &steam_path, &extra_locations)?;
+        Ok(icon_cache::list(&icons_cache, &owners))
+    })
+    .await
+    .map_err(|e| format!("Icon cache scan failed: {}", e))?
+}
+
+#[tauri::command]
+async fn redownload_cached_icons(
+    steamapps_path: String,
+    extra_locations: Vec<String>,
+    file_names: Vec<String>,
+    download: Option<DownloadSettings>,
+) -> Result<Vec<IconRefresh>, String> {
+    tauri::async_runtime::spawn_blocking(move || {
+        let (steam_path, icons_cache) = get_icons_cache()?;
+        let owners = icon_owners(steamapps_path, &steam_path, &extra_locations)?;
+        let downloader = IconDownloader::new(&download.unwrap_or_default())?;
+        let changes = ChangeSet::begin(&get_backups_dir()?, "Re-download Icons");
+
+        Ok(file_names
+            .into_iter()
+            .map(|file_name| {
+                let client_icon = Path::new(&file_name)
+                    .file_stem()
+                    .map(|s| s.to_string_lossy().to_lowercase())
+                    .unwrap_or_default();
+
+                let result = match owners.get(&client_icon) {
+                    Some(owner) => icons::ensure_cached_icon(
+                        &downloader, &changes, &steam_path, &icons_cache, &owner.app_id, &client_icon, &file_name,
+                    ),
+                    None => Err("No shortcut or installed game uses this icon, so its app is unknown".to_string()),
+                };
+
+                match result {
+                    Ok(source) => IconRefresh { file_name, success: true, error: None, source: Some(source) },
+                    Err(e) => {
+                        eprintln!("Failed to re-download {}: {}", file_name, e);
+                        IconRefresh { file_name, success: false, error: Some(e), source: None }
+                    }
+                }
+            })
+            .collect())
+    })
+    .await
+    .map_err(|e| format!("Icon re-download failed: {}", e))?
+}
+
+#[tauri::command]
+fn purge_cached_icons(file_names: Vec<String>) -> Result<usize, String> {
+    let (_, icons_cache) = get_icons_cache()?;
+    let changes = ChangeSet::begin(&get_backups_dir()?, "Purge Icon Cache");
+    icon_cache::purge(&icons_cache, &file_names, &changes)
+}
+
+#[tauri::command]
+async fn audit_libraries(steamapps_path: String) -> Result<Vec<AuditEntry>, String> {
+    // Sizing orphaned folders walks the whole tree, keep it off the async runtime
+    tauri::async_runtime::spawn_blocking(move || {
+        audit::audit_libraries(&get_steam_library_folders(&steamapps_path))
+    })
+    .await
+    .map_err(|e| format!("Library audit failed: {}", e))
+}
+
+#[tauri::command]
+fn quarantine_folder(path: String) -> Result<String, String> {
+    let folder = PathBuf::from(&path);
+    if !folder.is_dir() {
+        return Err(format!("{} is not a folder", path));
+    }
+
+    let name = folder.file_name().unwrap_or_default().to_string_lossy().to_string();
+    let changes = ChangeSet::begin(&get_backups_dir()?, &format!("Quarantine: {}", name));
+    let target = audit::quarantine_folder(&folder, &changes)?;
+
+    eprintln!("Quarantined {} to {}", path, target.display());
+    Ok(target.to_string_lossy().to_string())
+}
+
+// Folders open as they are, files open their folder with the file selected where the OS allows it
+#[tauri::command]
+fn open_in_file_manager(path: String) -> Result<(), String> {
+    let target = PathBuf::from(&path);
+    if !target.exists() {
+        return Err(format!("{} does not exist", path));
+    }
+
+    #[cfg(target_os = "windows")]
+    {
+        let mut command = Command::new("explorer");
+        if target.is_file() {
+            command.arg(format!("/select,{}", path));
+        } else {
+            command.arg(&path);
+        }
+        command.spawn()
+            .map_err(|e| format!("Failed to open file manager: {}", e))?;
+    }
+
+    #[cfg(target_os = "linux")]
+    {
+        let folder = if target.is_file() {
+            target.parent().map(Path::to_path_buf).unwrap_or(target.clone())
+        } else {
+            target.clone()
+        };
+        Command::new("xdg-open")
+            .arg(&folder)
+            .spawn()
+            .map_err(|e| format!("Failed to open file manager: {}", e))?;
+    }
+
+    #[cfg(target_os = "macos")]
+    {
+        let mut command = Command::new("open");
+        if target.is_file() {
+            command.arg("-R");
+        }
+        command.arg(&path)
+            .spawn()
+            .map_err(|e| format!("Failed to open file manager: {}", e))?;
+    }
+
+    Ok(())
+}
+
 #[tauri::command]
 fn cleanup_temp_folders(steamapps_path: String) -> Result<Vec<String>, String> {
+    Ok(restore_temp_folders(&steamapps_path, false))
+}
+
+// With dry_run set, only reports the folders that would be renamed back
+fn restore_temp_folders(steamapps_path: &str, dry_run: bool) -> Vec<String> {
     let mut cleaned = Vec::new();
-    let libraries = get_steam_library_folders(&steamapps_path);
+    let libraries = get_steam_library_folders(steamapps_path);
+    let journal_dir = get_journal_dir().ok().filter(|_| !dry_run);
+    let changes = get_backups_dir()
+        .ok()
+        .filter(|_| !dry_run)
+        .map(|dir| ChangeSet::begin(&dir, "Cleanup Temp Folders"));
 
     for library in libraries {
         let common_path = library.join("common");
@@ -410,11 +2229,23 @@ fn cleanup_temp_folders(steamapps_path: String) -> Result<Vec<String>, String> {
                 let path = entry.path();
                 if let Some(name) = path.file_name() {
                     let name_str = name.to_string_lossy();
-                    if name_str.ends_with("_temp_rename") {
-                        let original_name = name_str.trim_end_matches("_temp_rename");
+                    if name_str.ends_with(TEMP_RENAME_SUFFIX) {
+                        let original_name = name_str.trim_end_matches(TEMP_RENAME_SUFFIX);
                         let original_path = common_path.join(original_name);
+
+                        if original_path.exists() {
+                            eprintln!("Skipping {}: {} already exists", name_str, original_path.display());
+                            continue;
+                        }
                         
-                        if fs::rename(&path, &original_path).is_ok() {
+                        if let Some(changes) = &changes {
+                            if let Err(e) = changes.before_rename(&path, &original_path) {
+                                eprintln!("Skipping {}: {}", name_str, e);
+                                continue;
+                            }
+                        }
+
+                        if dry_run || fs::rename(&path, &original_path).is_ok() {
                             cleaned.push(original_name.to_string());
                         }
                     }
@@ -423,7 +2254,17 @@ fn cleanup_temp_folders(steamapps_path: String) -> Result<Vec<String>, String> {
         }
     }
 
-    Ok(cleaned)
+    // Journals whose folder was just put back have nothing left to recover
+    if let Some(journal_dir) = journal_dir {
+        for journal in journal::list(&journal_dir) {
+            let restored = !journal.temp_exists && journal.original_exists;
+            if restored && matches!(journal.step, RepairStep::Renaming | RepairStep::Renamed | RepairStep::UninstallRequested) {
+                let _ = journal::remove(&journal_dir, &journal.app_id);
+            }
+        }
+    }
+
+    cleaned
 }
 
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
@@ -431,13 +2272,63 @@ pub fn run() {
     tauri::Builder::default()
         .plugin(tauri_plugin_shell::init())
         .plugin(tauri_plugin_dialog::init())
+        .plugin(tauri_plugin_notification::init())
+        .manage(QuickFixState::default())
+        .manage(ManifestWaitState::default())
+        .manage(AgentState::default())
+        .manage(ArtworkState::default())
+        .register_asynchronous_uri_scheme_protocol(ARTWORK_PROTOCOL, |ctx, request, responder| {
+            // A screen of thumbnails is dozens of file reads, keep them off the webview thread
+            let app = ctx.app_handle().clone();
+            let path = request.uri().path().to_string();
+            tauri::async_runtime::spawn_blocking(move || {
+                responder.respond(artwork_response(&app.state::<ArtworkState>(), &path))
+            });
+        })
+        .on_window_event(|window, event| {
+            // In tray mode closing the window only hides it, the agent keeps watching
+            if let tauri::WindowEvent::CloseRequested { api, .. } = event {
+                if window.state::<AgentState>().is_running() {
+                    api.prevent_close();
+                    let _ = window.hide();
+                }
+            }
+        })
         .invoke_handler(tauri::generate_handler![
             scan_games,
             rename_game_folder,
             revert_game_folder,
+            get_unfinished_repairs,
+            update_repair_step,
+            complete_repair,
+            rollback_repair,
+            wait_for_manifest,
+            cancel_manifest_wait,
+            list_change_sets,
+            undo_change_set,
+            prune_backups,
+            export_report,
+            detect_steam_installs,
+            set_steam_path,
             open_steam_url,
+            audit_libraries,
+            quarantine_folder,
+            open_in_file_manager,
+            list_cached_icons,
+            redownload_cached_icons,
+            purge_cached_icons,
             cleanup_temp_folders,
             quick_fix_shortcuts,
+            cancel_quick_fix,
+            set_tray_agent,
+            get_agent_history,
+            diagnose_shortcuts,
+            plan_shortcut_cleanup,
+            clean_up_shortcuts,
+            detect_shortcut_locations,
+            scan_non_steam_shortcuts,
+            update_non_steam_shortcut,
+            create_shortcuts,
         ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
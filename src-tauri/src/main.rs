@@ -2,5 +2,11 @@
 #![cfg_attr(not(debug_assertions), windows_subsystem = "windows")]
 
 fn main() {
+    // A known subcommand or option switches to the headless command-line mode
+    let args: Vec<String> = std::env::args().skip(1).collect();
+    if let Some(code) = steam_shortcut_fixer_lib::run_cli(&args) {
+        std::process::exit(code);
+    }
+
     steam_shortcut_fixer_lib::run()
-}
\ No newline at end of file
+}
@@ -0,0 +1,246 @@
+use std::fs;
+use std::path::Path;
+use serde::{Deserialize, Serialize};
+
+use super::{Game, GameShortcutHealth, ShortcutFix};
+use crate::journal::now;
+
+#[derive(Debug, Deserialize, Clone, Copy, PartialEq)]
+#[serde(rename_all = "snake_case")]
+pub enum ReportFormat {
+    Json,
+    Csv,
+    Html,
+}
+
+#[derive(Debug, Serialize)]
+pub struct Report {
+    pub generated_at: u64,
+    pub app_version: String,
+    pub steam_path: Option<String>,
+    pub libraries: Vec<String>,
+    pub games: Vec<Game>,
+    pub fixes: Vec<ShortcutFix>,
+}
+
+impl Report {
+    pub fn new(steam_path: Option<String>, libraries: Vec<String>, games: Vec<Game>, fixes: Vec<ShortcutFix>) -> Self {
+        Report {
+            generated_at: now(),
+            app_version: env!("CARGO_PKG_VERSION").to_string(),
+            steam_path,
+            libraries,
+            games,
+            fixes,
+        }
+    }
+}
+
+fn health_text(health: Option<GameShortcutHealth>) -> &'static str {
+    match health {
+        Some(GameShortcutHealth::HasShortcut) => "Has shortcut",
+        Some(GameShortcutHealth::MissingIcon) => "Shortcut without icon",
+        Some(GameShortcutHealth::NoShortcut) => "No shortcut",
+        Some(GameShortcutHealth::Multiple) => "Multiple shortcuts",
+        Some(GameShortcutHealth::Malformed) => "Broken shortcut",
+        None => "",
+    }
+}
+
+fn csv_field(value: &str) -> String {
+    // Spreadsheets run anything that looks like a formula, a game or shortcut name included
+    let value = if value.starts_with(['=', '+', '-', '@', '\t', '\r']) {
+        format!("'{}", value)
+    } else {
+        value.to_string()
+    };
+
+    if value.contains([',', '"', '\n', '\r']) {
+        format!("\"{}\"", value.replace('"', "\"\""))
+    } else {
+        value
+    }
+}
+
+// One table for everything, the first column says what each row is
+fn to_csv(report: &Report) -> String {
+    let mut rows = vec![vec![
+        "type".to_string(),
+        "name".to_string(),
+        "app_id".to_string(),
+        "status".to_string(),
+        "location".to_string(),
+        "path".to_string(),
+        "detail".to_string(),
+    ]];
+
+    if let Some(steam_path) = &report.steam_path {
+        rows.push(vec!["steam".into(), String::new(), String::new(), String::new(), String::new(), steam_path.clone(), String::new()]);
+    }
+
+    for library in &report.libraries {
+        rows.push(vec!["library".into(), String::new(), String::new(), String::new(), String::new(), library.clone(), String::new()]);
+    }
+
+    for game in &report.games {
+        rows.push(vec![
+            "game".into(),
+            game.name.clone(),
+            game.app_id.clone(),
+            health_text(game.shortcut_health).to_string(),
+            game.library_path.clone(),
+            game.path.clone(),
+            format!("{} bytes", game.size_on_disk),
+        ]);
+    }
+
+    for fix in &report.fixes {
+        rows.push(vec![
+            "fix".into(),
+            fix.name.clone(),
+            fix.game_id.clone(),
+            if fix.success { "fixed".into() } else { "failed".into() },
+            fix.location.clone(),
+            fix.path.clone(),
+            fix.error.clone().unwrap_or_default(),
+        ]);
+    }
+
+    rows.iter()
+        .map(|row| row.iter().map(|field| csv_field(field)).collect::<Vec<_>>().join(","))
+        .collect::<Vec<_>>()
+        .join("\r\n")
+        + "\r\n"
+}
+
+fn escape_html(value: &str) -> String {
+    value
+        .replace('&', "&amp;")
+        .replace('<', "&lt;")
+        .replace('>', "&gt;")
+        .replace('"', "&quot;")
+}
+
+fn html_table(headers: &[&str], rows: Vec<Vec<String>>) -> String {
+    if rows.is_empty() {
+        return "<p class=\"empty\">None</p>".to_string();
+    }
+
+    let head: String = headers.iter().map(|h| format!("<th>{}</th>", h)).collect();
+    let body: String = rows
+        .iter()
+        .map(|row| {
+            let cells: String = row.iter().map(|cell| format!("<td>{}</td>", escape_html(cell))).collect();
+            format!("<tr>{}</tr>", cells)
+        })
+        .collect();
+
+    format!("<table><thead><tr>{}</tr></thead><tbody>{}</tbody></table>", head, body)
+}
+
+// Everything inline so the file can be attached to a ticket and opened anywhere
+fn to_html(report: &Report) -> String {
+    let fixed = report.fixes.iter().filter(|f| f.success).count();
+
+    let libraries = html_table(
+        &["Library"],
+        report.libraries.iter().map(|l| vec![l.clone()]).collect(),
+    );
+    let games = html_table(
+        &["Name", "App ID", "Shortcut", "Folder", "Library"],
+        report.games.iter().map(|g| vec![
+            g.name.clone(),
+            g.app_id.clone(),
+            health_text(g.shortcut_health).to_string(),
+            g.path.clone(),
+            g.library_path.clone(),
+        ]).collect(),
+    );
+    let fixes = html_table(
+        &["Shortcut", "Game ID", "Result", "Location", "Path", "Error"],
+        report.fixes.iter().map(|f| vec![
+            f.name.clone(),
+            f.game_id.clone(),
+            if f.success { "Fixed".into() } else { "Failed".into() },
+            f.location.clone(),
+            f.path.clone(),
+            f.error.clone().unwrap_or_default(),
+        ]).collect(),
+    );
+
+    format!(
+        r#"<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Steam Shortcut Fixer Report</title>
+<style>
+body {{ font-family: system-ui, sans-serif; background: #0f172a; color: #e5e7eb; margin: 2rem; }}
+h1 {{ margin-bottom: 0.25rem; }}
+h2 {{ margin-top: 2rem; color: #93c5fd; }}
+.meta {{ color: #9ca3af; }}
+table {{ border-collapse: collapse; width: 100%; font-size: 0.875rem; }}
+th, td {{ text-align: left; padding: 0.4rem 0.6rem; border-bottom: 1px solid #374151; vertical-align: top; word-break: break-all; }}
+th {{ background: #1f2937; }}
+.empty {{ color: #6b7280; }}
+</style>
+</head>
+<body>
+<h1>Steam Shortcut Fixer Report</h1>
+<p class="meta">Version {version} &middot; generated at {generated} (Unix time)</p>
+<p>Steam: {steam}</p>
+<h2>Libraries</h2>
+{libraries}
+<h2>Games ({game_count})</h2>
+{games}
+<h2>Quick Fix Results ({fixed} fixed, {failed} failed)</h2>
+{fixes}
+</body>
+</html>
+"#,
+        version = escape_html(&report.app_version),
+        generated = report.generated_at,
+        steam = escape_html(report.steam_path.as_deref().unwrap_or("Not found")),
+        libraries = libraries,
+        game_count = report.games.len(),
+        games = games,
+        fixed = fixed,
+        failed = report.fixes.len() - fixed,
+        fixes = fixes,
+    )
+}
+
+pub fn write(report: &Report, format: ReportFormat, path: &Path) -> Result<(), String> {
+    let content = match format {
+        ReportFormat::Json => serde_json::to_string_pretty(report)
+            .map_err(|e| format!("Failed to serialize report: {}", e))?,
+        ReportFormat::Csv => to_csv(report),
+        ReportFormat::Html => to_html(report),
+    };
+
+    fs::write(path, content)
+        .map_err(|e| format!("Failed to write {}: {}", path.display(), e))
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    #[test]
+    fn csv_field_quotes_separators() {
+        assert_eq!(csv_field("Portal"), "Portal");
+        assert_eq!(csv_field("Half-Life 2: Episode One, Two"), "\"Half-Life 2: Episode One, Two\"");
+        assert_eq!(csv_field("12\" Vinyl"), "\"12\"\" Vinyl\"");
+        assert_eq!(csv_field("line\nbreak"), "\"line\nbreak\"");
+    }
+
+    #[test]
+    fn csv_field_neutralises_formulas() {
+        for value in ["=HYPERLINK(\"x\")", "+1", "-1", "@SUM(A1)", "\tcmd", "\rcmd"] {
+            assert!(csv_field(value).trim_start_matches('"').starts_with('\''), "{:?} was not prefixed", value);
+        }
+        assert_eq!(csv_field("=1+1"), "'=1+1");
+        assert_eq!(csv_field("=A1,B1"), "\"'=A1,B1\"");
+        assert_eq!(csv_field("Half-Life"), "Half-Life");
+    }
+}
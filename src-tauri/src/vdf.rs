@@ -0,0 +1,523 @@
+use std::fs;
+use std::path::Path;
+
+#[derive(Debug, Clone, PartialEq)]
+pub enum Value {
+    Str(String),
+    Int(i32),
+    Float(f32),
+    UInt64(u64),
+    Int64(i64),
+    Obj(Object),
+}
+
+#[derive(Debug, Clone, PartialEq, Default)]
+pub struct Object {
+    entries: Vec<(String, Value)>,
+}
+
+impl Value {
+    pub fn as_str(&self) -> Option<&str> {
+        match self {
+            Value::Str(s) => Some(s),
+            _ => None,
+        }
+    }
+
+    pub fn as_obj(&self) -> Option<&Object> {
+        match self {
+            Value::Obj(o) => Some(o),
+            _ => None,
+        }
+    }
+
+    pub fn as_u64(&self) -> Option<u64> {
+        match self {
+            Value::Str(s) => s.trim().parse().ok(),
+            Value::Int(i) => Some(*i as u32 as u64),
+            Value::UInt64(u) => Some(*u),
+            Value::Int64(i) => u64::try_from(*i).ok(),
+            _ => None,
+        }
+    }
+}
+
+impl Object {
+    // Keys in Steam's KeyValues files are case-insensitive ("appid" vs "AppID")
+    pub fn get(&self, key: &str) -> Option<&Value> {
+        self.entries
+            .iter()
+            .find(|(k, _)| k.eq_ignore_ascii_case(key))
+            .map(|(_, v)| v)
+    }
+
+    pub fn get_str(&self, key: &str) -> Option<&str> {
+        self.get(key).and_then(Value::as_str)
+    }
+
+    pub fn get_obj(&self, key: &str) -> Option<&Object> {
+        self.get(key).and_then(Value::as_obj)
+    }
+
+    pub fn get_u64(&self, key: &str) -> Option<u64> {
+        self.get(key).and_then(Value::as_u64)
+    }
+
+    pub fn get_obj_mut(&mut self, key: &str) -> Option<&mut Object> {
+        self.entries
+            .iter_mut()
+            .find(|(k, _)| k.eq_ignore_ascii_case(key))
+            .and_then(|(_, v)| match v {
+                Value::Obj(o) => Some(o),
+                _ => None,
+            })
+    }
+
+    // Replaces an existing value in place (keeping its original key casing) or appends it
+    pub fn set(&mut self, key: &str, value: Value) {
+        match self.entries.iter_mut().find(|(k, _)| k.eq_ignore_ascii_case(key)) {
+            Some(entry) => entry.1 = value,
+            None => self.entries.push((key.to_string(), value)),
+        }
+    }
+
+    pub fn iter(&self) -> impl Iterator<Item = (&str, &Value)> {
+        self.entries.iter().map(|(k, v)| (k.as_str(), v))
+    }
+}
+
+#[derive(Debug, PartialEq)]
+enum Token {
+    Str(String),
+    Open,
+    Close,
+}
+
+struct Lexer<'a> {
+    chars: std::iter::Peekable<std::str::Chars<'a>>,
+    line: usize,
+}
+
+impl<'a> Lexer<'a> {
+    fn new(input: &'a str) -> Self {
+        Lexer {
+            chars: input.trim_start_matches('\u{feff}').chars().peekable(),
+            line: 1,
+        }
+    }
+
+    fn skip_whitespace_and_comments(&mut self) {
+        while let Some(&c) = self.chars.peek() {
+            if c == '\n' {
+                self.line += 1;
+                self.chars.next();
+            } else if c.is_whitespace() {
+                self.chars.next();
+            } else if c == '/' {
+                // Only "//" starts a comment, a lone slash is part of an unquoted token
+                let mut lookahead = self.chars.clone();
+                lookahead.next();
+                if lookahead.peek() != Some(&'/') {
+                    return;
+                }
+                while let Some(&c) = self.chars.peek() {
+                    if c == '\n' {
+                        break;
+                    }
+                    self.chars.next();
+                }
+            } else {
+                return;
+            }
+        }
+    }
+
+    fn next_token(&mut self) -> Result<Option<Token>, String> {
+        loop {
+            self.skip_whitespace_and_comments();
+
+            let c = match self.chars.peek() {
+                Some(&c) => c,
+                None => return Ok(None),
+            };
+
+            match c {
+                '{' => {
+                    self.chars.next();
+                    return Ok(Some(Token::Open));
+                }
+                '}' => {
+                    self.chars.next();
+                    return Ok(Some(Token::Close));
+                }
+                '"' => {
+                    self.chars.next();
+                    return self.quoted().map(|s| Some(Token::Str(s)));
+                }
+                '[' => {
+                    // Platform conditionals such as [$WIN32] are not evaluated
+                    while let Some(c) = self.chars.next() {
+                        if c == ']' {
+                            break;
+                        }
+                    }
+                }
+                _ => return Ok(Some(Token::Str(self.unquoted()))),
+            }
+        }
+    }
+
+    fn quoted(&mut self) -> Result<String, String> {
+        let start_line = self.line;
+        let mut value = String::new();
+
+        while let Some(c) = self.chars.next() {
+            match c {
+                '"' => return Ok(value),
+                '\\' => match self.chars.next() {
+                    Some('"') => value.push('"'),
+                    Some('\\') => value.push('\\'),
+                    Some('n') => value.push('\n'),
+                    Some('t') => value.push('\t'),
+                    // Unknown escapes are kept verbatim, e.g. unescaped Windows paths
+                    Some(other) => {
+                        value.push('\\');
+                        value.push(other);
+                    }
+                    None => value.push('\\'),
+                },
+                '\n' => {
+                    self.line += 1;
+                    value.push(c);
+                }
+                _ => value.push(c),
+            }
+        }
+
+        Err(format!("Unterminated string starting on line {}", start_line))
+    }
+
+    fn unquoted(&mut self) -> String {
+        let mut value = String::new();
+
+        while let Some(&c) = self.chars.peek() {
+            if c.is_whitespace() || c == '"' || c == '{' || c == '}' {
+                break;
+            }
+            value.push(c);
+            self.chars.next();
+        }
+
+        value
+    }
+}
+
+fn parse_object(lexer: &mut Lexer, nested: bool) -> Result<Object, String> {
+    let mut object = Object::default();
+
+    loop {
+        let key = match lexer.next_token()? {
+            Some(Token::Str(key)) => key,
+            Some(Token::Close) if nested => return Ok(object),
+            Some(Token::Close) => return Err(format!("Unexpected '}}' on line {}", lexer.line)),
+            Some(Token::Open) => return Err(format!("Expected key, found '{{' on line {}", lexer.line)),
+            None if nested => return Err("Unexpected end of file, missing '}'".to_string()),
+            None => return Ok(object),
+        };
+
+        let value = match lexer.next_token()? {
+            Some(Token::Str(value)) => Value::Str(value),
+            Some(Token::Open) => Value::Obj(parse_object(lexer, true)?),
+            Some(Token::Close) | None => {
+                return Err(format!("Missing value for key \"{}\" on line {}", key, lexer.line))
+            }
+        };
+
+        object.entries.push((key, value));
+    }
+}
+
+pub fn parse(input: &str) -> Result<Object, String> {
+    parse_object(&mut Lexer::new(input), false)
+}
+
+pub fn parse_file(path: &Path) -> Result<Object, String> {
+    let content = fs::read_to_string(path)
+        .map_err(|e| format!("Failed to read {}: {}", path.display(), e))?;
+    parse(&content).map_err(|e| format!("Failed to parse {}: {}", path.display(), e))
+}
+
+// Binary KeyValues, as used by userdata/<id>/config/shortcuts.vdf and appcache/appinfo.vdf
+const TYPE_OBJECT: u8 = 0x00;
+const TYPE_STRING: u8 = 0x01;
+const TYPE_INT: u8 = 0x02;
+const TYPE_FLOAT: u8 = 0x03;
+const TYPE_UINT64: u8 = 0x07;
+const TYPE_END: u8 = 0x08;
+const TYPE_INT64: u8 = 0x0a;
+
+struct Reader<'a> {
+    bytes: &'a [u8],
+    pos: usize,
+    // Newer appinfo.vdf files store keys as indices into a shared string table
+    keys: Option<&'a [String]>,
+}
+
+impl<'a> Reader<'a> {
+    fn byte(&mut self) -> Result<u8, String> {
+        let b = *self.bytes.get(self.pos).ok_or("Unexpected end of binary data")?;
+        self.pos += 1;
+        Ok(b)
+    }
+
+    fn take(&mut self, len: usize) -> Result<&'a [u8], String> {
+        let end = self.pos + len;
+        let slice = self.bytes.get(self.pos..end).ok_or("Unexpected end of binary data")?;
+        self.pos = end;
+        Ok(slice)
+    }
+
+    fn cstring(&mut self) -> Result<String, String> {
+        let rest = &self.bytes[self.pos.min(self.bytes.len())..];
+        let len = rest
+            .iter()
+            .position(|&b| b == 0)
+            .ok_or("Unterminated string in binary data")?;
+        let value = String::from_utf8_lossy(&rest[..len]).to_string();
+        self.pos += len + 1;
+        Ok(value)
+    }
+
+    fn key(&mut self) -> Result<String, String> {
+        match self.keys {
+            Some(keys) => {
+                let index = u32::from_le_bytes(self.take(4)?.try_into().unwrap()) as usize;
+                keys.get(index)
+                    .cloned()
+                    .ok_or_else(|| format!("Key index {} is outside the string table", index))
+            }
+            None => self.cstring(),
+        }
+    }
+}
+
+fn parse_binary_object(reader: &mut Reader, nested: bool) -> Result<Object, String> {
+    let mut object = Object::default();
+
+    loop {
+        let value_type = match reader.byte() {
+            Ok(b) => b,
+            // Some writers omit the trailing end marker of the root object
+            Err(_) if !nested => return Ok(object),
+            Err(e) => return Err(e),
+        };
+
+        if value_type == TYPE_END {
+            return Ok(object);
+        }
+
+        let key = reader.key()?;
+        let value = match value_type {
+            TYPE_OBJECT => Value::Obj(parse_binary_object(reader, true)?),
+            TYPE_STRING => Value::Str(reader.cstring()?),
+            TYPE_INT => Value::Int(i32::from_le_bytes(reader.take(4)?.try_into().unwrap())),
+            TYPE_FLOAT => Value::Float(f32::from_le_bytes(reader.take(4)?.try_into().unwrap())),
+            TYPE_UINT64 => Value::UInt64(u64::from_le_bytes(reader.take(8)?.try_into().unwrap())),
+            TYPE_INT64 => Value::Int64(i64::from_le_bytes(reader.take(8)?.try_into().unwrap())),
+            other => {
+                return Err(format!(
+                    "Unknown binary value type 0x{:02x} at offset {}",
+                    other,
+                    reader.pos - 1
+                ))
+            }
+        };
+
+        object.entries.push((key, value));
+    }
+}
+
+pub fn parse_binary(bytes: &[u8]) -> Result<Object, String> {
+    parse_binary_object(&mut Reader { bytes, pos: 0, keys: None }, false)
+}
+
+pub fn parse_binary_with_keys(bytes: &[u8], keys: &[String]) -> Result<Object, String> {
+    parse_binary_object(&mut Reader { bytes, pos: 0, keys: Some(keys) }, false)
+}
+
+fn write_binary_object(object: &Object, out: &mut Vec<u8>) {
+    for (key, value) in &object.entries {
+        let value_type = match value {
+            Value::Obj(_) => TYPE_OBJECT,
+            Value::Str(_) => TYPE_STRING,
+            Value::Int(_) => TYPE_INT,
+            Value::Float(_) => TYPE_FLOAT,
+            Value::UInt64(_) => TYPE_UINT64,
+            Value::Int64(_) => TYPE_INT64,
+        };
+
+        out.push(value_type);
+        out.extend_from_slice(key.as_bytes());
+        out.push(0);
+
+        match value {
+            Value::Obj(o) => write_binary_object(o, out),
+            Value::Str(s) => {
+                out.extend_from_slice(s.as_bytes());
+                out.push(0);
+            }
+            Value::Int(i) => out.extend_from_slice(&i.to_le_bytes()),
+            Value::Float(f) => out.extend_from_slice(&f.to_le_bytes()),
+            Value::UInt64(u) => out.extend_from_slice(&u.to_le_bytes()),
+            Value::Int64(i) => out.extend_from_slice(&i.to_le_bytes()),
+        }
+    }
+
+    out.push(TYPE_END);
+}
+
+pub fn write_binary(object: &Object) -> Vec<u8> {
+    let mut out = Vec::new();
+    write_binary_object(object, &mut out);
+    out
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    #[test]
+    fn parses_quoted_and_escaped_strings() {
+        let root = parse(r#""root" { "path" "C:\\Program Files (x86)\\Steam" "quote" "say \"hi\"" "raw" "D:\Games" "tab" "a\tb" }"#).unwrap();
+        let root = root.get_obj("root").unwrap();
+        assert_eq!(root.get_str("path"), Some(r"C:\Program Files (x86)\Steam"));
+        assert_eq!(root.get_str("quote"), Some("say \"hi\""));
+        // Unknown escapes stay as written
+        assert_eq!(root.get_str("raw"), Some(r"D:\Games"));
+        assert_eq!(root.get_str("tab"), Some("a\tb"));
+    }
+
+    #[test]
+    fn parses_nested_objects_and_unquoted_tokens() {
+        let root = parse("\u{feff}libraryfolders\n{\n\t\"0\"\n\t{\n\t\tpath /home/me/.steam\n\t\t\"apps\" { \"400\" \"123\" }\n\t}\n}\n").unwrap();
+        let library = root.get_obj("libraryfolders").unwrap().get_obj("0").unwrap();
+        assert_eq!(library.get_str("path"), Some("/home/me/.steam"));
+        assert_eq!(library.get_obj("apps").unwrap().get_u64("400"), Some(123));
+    }
+
+    #[test]
+    fn skips_comments_and_conditionals() {
+        let root = parse("// header\n\"a\" \"1\" // trailing\n\"b\" \"2\" [$WIN32]\n\"url\" \"https://example.com\"\n").unwrap();
+        assert_eq!(root.get_str("a"), Some("1"));
+        assert_eq!(root.get_str("b"), Some("2"));
+        assert_eq!(root.get_str("url"), Some("https://example.com"));
+        assert_eq!(root.iter().count(), 3);
+    }
+
+    #[test]
+    fn lookups_ignore_key_case() {
+        let mut root = parse("\"AppState\" { \"AppID\" \"400\" \"StateFlags\" \"4\" }").unwrap();
+        let state = root.get_obj("appstate").unwrap();
+        assert_eq!(state.get_str("appid"), Some("400"));
+        assert_eq!(state.get_u64("STATEFLAGS"), Some(4));
+        assert!(state.get("name").is_none());
+
+        root.get_obj_mut("APPSTATE").unwrap().set("appid", Value::Str("440".to_string()));
+        let keys: Vec<&str> = root.get_obj("AppState").unwrap().iter().map(|(k, _)| k).collect();
+        assert_eq!(keys, vec!["AppID", "StateFlags"]);
+        assert_eq!(root.get_obj("AppState").unwrap().get_str("appid"), Some("440"));
+    }
+
+    #[test]
+    fn malformed_input_is_an_error() {
+        for input in [
+            "\"a\" \"unterminated",
+            "\"a\" { \"b\" \"c\"",
+            "\"a\" \"b\" }",
+            "\"a\"",
+            "\"a\" { \"b\" }",
+            "{ \"a\" \"b\" }",
+        ] {
+            assert!(parse(input).is_err(), "{:?} should not parse", input);
+        }
+        assert!(parse("").unwrap().iter().next().is_none());
+    }
+
+    // A shortcuts.vdf the way Steam writes it, built byte by byte
+    fn shortcuts_fixture() -> Vec<u8> {
+        fn string(out: &mut Vec<u8>, key: &str, value: &str) {
+            out.push(TYPE_STRING);
+            out.extend_from_slice(key.as_bytes());
+            out.push(0);
+            out.extend_from_slice(value.as_bytes());
+            out.push(0);
+        }
+        fn int(out: &mut Vec<u8>, key: &str, value: i32) {
+            out.push(TYPE_INT);
+            out.extend_from_slice(key.as_bytes());
+            out.push(0);
+            out.extend_from_slice(&value.to_le_bytes());
+        }
+        fn open(out: &mut Vec<u8>, key: &str) {
+            out.push(TYPE_OBJECT);
+            out.extend_from_slice(key.as_bytes());
+            out.push(0);
+        }
+
+        let mut out = Vec::new();
+        open(&mut out, "shortcuts");
+        open(&mut out, "0");
+        int(&mut out, "appid", -1_234_567_890);
+        string(&mut out, "AppName", "Heroic Launcher");
+        string(&mut out, "Exe", "\"C:\\Program Files\\Heroic\\Heroic.exe\"");
+        string(&mut out, "icon", "");
+        int(&mut out, "IsHidden", 0);
+        open(&mut out, "tags");
+        string(&mut out, "0", "favorite");
+        string(&mut out, "1", "Epic");
+        out.push(TYPE_END);
+        out.push(TYPE_END);
+        out.push(TYPE_END);
+        out.push(TYPE_END);
+        out
+    }
+
+    #[test]
+    fn binary_round_trip_keeps_shortcuts_intact() {
+        let bytes = shortcuts_fixture();
+        let root = parse_binary(&bytes).unwrap();
+
+        let shortcut = root.get_obj("shortcuts").unwrap().get_obj("0").unwrap();
+        assert_eq!(shortcut.get("appid"), Some(&Value::Int(-1_234_567_890)));
+        assert_eq!(shortcut.get_str("AppName"), Some("Heroic Launcher"));
+        assert_eq!(shortcut.get_str("icon"), Some(""));
+        assert_eq!(shortcut.get_obj("tags").unwrap().get_str("1"), Some("Epic"));
+
+        let written = write_binary(&root);
+        assert_eq!(written, bytes);
+        assert_eq!(parse_binary(&written).unwrap(), root);
+    }
+
+    #[test]
+    fn binary_edit_survives_round_trip() {
+        let mut root = parse_binary(&shortcuts_fixture()).unwrap();
+        let shortcut = root.get_obj_mut("shortcuts").unwrap().get_obj_mut("0").unwrap();
+        shortcut.set("icon", Value::Str("C:\\Icons\\heroic.ico".to_string()));
+        shortcut.set("LastPlayTime", Value::Int(1_700_000_000));
+
+        let reparsed = parse_binary(&write_binary(&root)).unwrap();
+        let shortcut = reparsed.get_obj("shortcuts").unwrap().get_obj("0").unwrap();
+        assert_eq!(shortcut.get_str("icon"), Some("C:\\Icons\\heroic.ico"));
+        assert_eq!(shortcut.get_u64("LastPlayTime"), Some(1_700_000_000));
+        assert_eq!(shortcut.get_obj("tags").unwrap().iter().count(), 2);
+    }
+
+    #[test]
+    fn truncated_binary_is_an_error() {
+        let bytes = shortcuts_fixture();
+        for len in [3, 20, 40, bytes.len() - 3] {
+            assert!(parse_binary(&bytes[..len]).is_err(), "{} bytes should not parse", len);
+        }
+        assert!(parse_binary(&[0x05, b'k', 0]).is_err());
+    }
+}
@@ -1,7 +1,8 @@
-﻿import { useState, useEffect, useRef } from 'react';
-import { Play, FolderOpen, AlertCircle, CheckCircle, Settings, RefreshCw, XCircle, Search, Clock, Package, ChevronDown, X, Info, Loader2, Minimize, Sparkles } from 'lucide-react';
-import { invoke } from '@tauri-apps/api/core';
-import { open } from '@tauri-apps/plugin-dialog';
+﻿import { useState, useEffect, useRef, useMemo, useDeferredValue, type KeyboardEvent, type MouseEvent, type ReactNode } from 'react';
+import { Play, FolderOpen, AlertCircle, CheckCircle, Settings, RefreshCw, XCircle, Search, Clock, Package, ChevronDown, X, Info, Loader2, Minimize, Sparkles, FilePlus, Monitor, LayoutGrid, Gamepad2, AlertTriangle, History, Undo2, FileDown, ClipboardList, Archive, Download, Trash2, Images, Eye, EyeOff, Plus, ArrowUp, ArrowDown, Layers } from 'lucide-react';
+import { invoke, convertFileSrc } from '@tauri-apps/api/core';
+import { listen } from '@tauri-apps/api/event';
+import { open, save } from '@tauri-apps/plugin-dialog';
 import { getCurrentWindow } from '@tauri-apps/api/window';
 import titlebarIcon from './assets/SSF.png';
 
@@ -11,6 +12,97 @@ interface Game {
   path: string;
   status: 'ready' | 'processing' | 'complete' | 'error';
   progress?: number;
+  state_flags: number;
+  size_on_disk: number;
+  build_id: string;
+  last_updated: number;
+  library_path: string;
+  shortcut_health?: GameShortcutHealth;
+  is_tool?: boolean;
+}
+
+type GameShortcutHealth = 'has_shortcut' | 'missing_icon' | 'no_shortcut' | 'multiple' | 'malformed';
+
+type RepairStep = 'renaming' | 'renamed' | 'uninstall_requested' | 'restored' | 'install_requested';
+
+interface RepairJournal {
+  app_id: string;
+  name: string;
+  library_path: string;
+  original_path: string;
+  temp_path: string;
+  started_at: number;
+  step: RepairStep;
+  original_exists: boolean;
+  temp_exists: boolean;
+}
+
+type Change =
+  | { action: 'created'; path: string }
+  | { action: 'modified'; path: string; backup: string }
+  | { action: 'renamed'; from: string; to: string }
+  | { action: 'deleted'; path: string; backup: string };
+
+interface ChangeSetInfo {
+  id: string;
+  label: string;
+  created_at: number;
+  changes: Change[];
+  undone_at: number | null;
+  size: number;
+}
+
+interface UndoReport {
+  reverted: number;
+  errors: string[];
+}
+
+interface BackupSettings {
+  max_age_days: number;
+  max_size_mb: number;
+}
+
+type AuditKind = 'orphaned_folder' | 'missing_folder' | 'duplicate_app_id';
+
+interface AuditEntry {
+  kind: AuditKind;
+  app_id: string;
+  name: string;
+  library_path: string;
+  path: string;
+  size_on_disk: number;
+  detail: string;
+}
+
+type ExclusionMatch = 'app_id' | 'exact' | 'substring' | 'regex';
+
+interface ExclusionRule {
+  match: ExclusionMatch;
+  pattern: string;
+}
+
+interface ExclusionSettings {
+  rules: ExclusionRule[];
+  hide_tools: boolean;
+}
+
+type GameSortKey = 'name' | 'app_id' | 'size' | 'last_updated' | 'library';
+
+interface GameListSettings {
+  sort_key: GameSortKey;
+  sort_desc: boolean;
+  group_by_library: boolean;
+}
+
+type GameListRow =
+  | { type: 'group'; library: string; count: number; top: number }
+  | { type: 'game'; game: Game; index: number; top: number };
+
+interface SteamInstall {
+  path: string;
+  steamapps: string;
+  source: string;
+  libraries: string[];
 }
 
 interface Toast {
@@ -23,6 +115,7 @@ interface ConfirmationModal {
   title: string;
   message: string;
   onConfirm: () => void;
+  watching?: boolean;
 }
 
 interface ShortcutFix {
@@ -30,21 +123,401 @@ interface ShortcutFix {
   game_id: string;
   icon_url: string;
   location: string;
+  path: string;
+  success: boolean;
+  error?: string;
+  source?: IconSource;
+}
+
+interface AgentRecord {
+  fixed_at: number;
+  fix: ShortcutFix;
+}
+
+interface DownloadSettings {
+  base_url: string;
+  proxy: string;
+  retries: number;
+}
+
+type IconSource = 'existing' | 'library_cache' | 'network';
+
+interface QuickFixProgress {
+  fix: ShortcutFix;
+  completed: number;
+  total: number;
+}
+
+interface NonSteamShortcut {
+  account_id: string;
+  account_name: string;
+  index: string;
+  app_id: number;
+  app_name: string;
+  exe: string;
+  start_dir: string;
+  icon: string;
+  launch_options: string;
+  exe_missing: boolean;
+  icon_missing: boolean;
+}
+
+type ShortcutHealth = 'healthy' | 'icon_missing' | 'icon_outside_cache' | 'not_installed' | 'malformed';
+
+interface ShortcutDiagnosis {
+  name: string;
+  path: string;
+  game_id: string;
+  location: string;
+  health: ShortcutHealth;
+  detail: string;
+}
+
+interface CachedIcon {
+  file_name: string;
+  path: string;
+  size: number;
+  valid: boolean;
+  problem: string | null;
+  app_id: string | null;
+  name: string | null;
+  installed: boolean;
+  shortcuts: number;
+}
+
+interface IconRefresh {
+  file_name: string;
+  success: boolean;
+  error: string | null;
+}
+
+type CleanupReason = 'dead' | 'duplicate';
+type CleanupAction = 'delete' | 'quarantine';
+
+interface CleanupGroup {
+  game_id: string;
+  reason: CleanupReason;
+  shortcuts: ShortcutDiagnosis[];
+  keep: string | null;
+}
+
+interface CleanupResult {
+  path: string;
+  success: boolean;
+  error: string | null;
+}
+
+interface CreatedShortcut {
+  name: string;
+  app_id: string;
+  location: string;
+  path: string;
   success: boolean;
   error?: string;
 }
 
-// Games to filter out
-const FILTERED_GAMES = [
-  'Steamworks Common Redistributables',
-  'Steam Linux Runtime',
-  'Proton',
+const SHORTCUT_HEALTH_LABELS: Record<ShortcutHealth, { color: string; text: string }> = {
+  healthy: { color: 'bg-green-600', text: 'Healthy' },
+  icon_missing: { color: 'bg-yellow-600', text: 'Icon missing' },
+  icon_outside_cache: { color: 'bg-yellow-600', text: 'Icon outside cache' },
+  not_installed: { color: 'bg-gray-600', text: 'Not installed' },
+  malformed: { color: 'bg-red-600', text: 'Malformed' },
+};
+
+const GAME_SHORTCUT_HEALTH_LABELS: Record<GameShortcutHealth, { color: string; text: string }> = {
+  has_shortcut: { color: 'bg-green-600/20 text-green-300 border-green-700/50', text: 'Has shortcut' },
+  missing_icon: { color: 'bg-yellow-600/20 text-yellow-300 border-yellow-700/50', text: 'Shortcut without icon' },
+  no_shortcut: { color: 'bg-gray-600/20 text-gray-300 border-gray-600/50', text: 'No shortcut' },
+  multiple: { color: 'bg-blue-600/20 text-blue-300 border-blue-700/50', text: 'Multiple shortcuts' },
+  malformed: { color: 'bg-red-600/20 text-red-300 border-red-700/50', text: 'Broken shortcut' },
+};
+
+const ICON_SOURCE_LABELS: Record<IconSource, string> = {
+  existing: 'Already cached',
+  library_cache: 'Local library cache',
+  network: 'Downloaded',
+};
+
+const DEFAULT_QUICK_FIX_WORKERS = 4;
+const TRAY_AGENT_RESTART_DELAY_MS = 2000;
+const STEAM_WAIT_TIMEOUT_SECS = 600;
+
+const DEFAULT_BACKUP_SETTINGS: BackupSettings = {
+  max_age_days: 30,
+  max_size_mb: 200
+};
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const AUDIT_SECTIONS: { kind: AuditKind; title: string; empty: string }[] = [
+  { kind: 'orphaned_folder', title: 'Orphaned Folders', empty: 'Every game folder belongs to a manifest.' },
+  { kind: 'missing_folder', title: 'Manifests Without a Folder', empty: 'Every manifest has its game folder.' },
+  { kind: 'duplicate_app_id', title: 'Duplicate App IDs', empty: 'No game is installed in more than one library.' }
 ];
 
+const REPAIR_STEP_LABELS: Record<RepairStep, string> = {
+  renaming: 'Renaming game folder',
+  renamed: 'Folder renamed, uninstall not started',
+  uninstall_requested: 'Waiting for uninstall',
+  restored: 'Folder restored, install not started',
+  install_requested: 'Waiting for install'
+};
+
+const DEFAULT_DOWNLOAD_SETTINGS: DownloadSettings = {
+  base_url: 'https://cdn.cloudflare.steamstatic.com/steamcommunity/public/images/apps',
+  proxy: '',
+  retries: 2,
+};
+
+// Preselected for repair after a scan
+const NEEDS_REPAIR: ShortcutHealth[] = ['icon_missing', 'icon_outside_cache'];
+
+// Proton, the Linux runtimes and redistributables are flagged as tools by the scan
+const DEFAULT_EXCLUSION_SETTINGS: ExclusionSettings = {
+  rules: [],
+  hide_tools: true
+};
+
+const EXCLUSION_MATCH_LABELS: Record<ExclusionMatch, string> = {
+  app_id: 'App ID',
+  exact: 'Exact name',
+  substring: 'Name contains',
+  regex: 'Name regex'
+};
+
+interface CompiledExclusionRule {
+  invalid: boolean;
+  matches: (game: Game) => boolean;
+}
+
+const matchesNothing = () => false;
+
+// Names are compared case-insensitively, an invalid regex matches nothing
+// Built once per rule change, so a regex is not recompiled for every game on every render
+const compileExclusionRule = (rule: ExclusionRule): CompiledExclusionRule => {
+  const pattern = rule.pattern.trim();
+  if (!pattern) return { invalid: false, matches: matchesNothing };
+
+  switch (rule.match) {
+    case 'app_id':
+      return { invalid: false, matches: game => game.app_id === pattern };
+    case 'exact': {
+      const name = pattern.toLowerCase();
+      return { invalid: false, matches: game => game.name.toLowerCase() === name };
+    }
+    case 'substring': {
+      const name = pattern.toLowerCase();
+      return { invalid: false, matches: game => game.name.toLowerCase().includes(name) };
+    }
+    case 'regex': {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(pattern, 'i');
+      } catch {
+        return { invalid: true, matches: matchesNothing };
+      }
+      return { invalid: false, matches: game => regex.test(game.name) };
+    }
+  }
+};
+
+// The game list, the stats and the scan toast all decide what is hidden here
+const isExcluded = (game: Game, hideTools: boolean, rules: CompiledExclusionRule[]) =>
+  (hideTools && !!game.is_tool) || rules.some(rule => rule.matches(game));
+
+const DEFAULT_GAME_LIST_SETTINGS: GameListSettings = {
+  sort_key: 'name',
+  sort_desc: false,
+  group_by_library: false
+};
+
+const GAME_SORT_LABELS: Record<GameSortKey, string> = {
+  name: 'Name',
+  app_id: 'App ID',
+  size: 'Size',
+  last_updated: 'Last Updated',
+  library: 'Library'
+};
+
+// Rows have fixed heights so only the ones in view are rendered, even with thousands of games
+const GAME_CARD_HEIGHT = 96;
+const GAME_ROW_HEIGHT = GAME_CARD_HEIGHT + 12;
+const GROUP_ROW_HEIGHT = 44;
+const LIST_OVERSCAN_PX = 600;
+
+const nameCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const compareGames = (a: Game, b: Game, key: GameSortKey) => {
+  switch (key) {
+    case 'app_id':
+      return Number(a.app_id) - Number(b.app_id);
+    case 'size':
+      return a.size_on_disk - b.size_on_disk;
+    case 'last_updated':
+      return a.last_updated - b.last_updated;
+    case 'library':
+      return nameCollator.compare(a.library_path, b.library_path);
+    case 'name':
+      return 0;
+  }
+};
+
+// Ties are always broken by name, so the order never jumps around between scans
+const sortGames = (games: Game[], settings: GameListSettings) => {
+  const direction = settings.sort_desc ? -1 : 1;
+  const sorted = [...games].sort((a, b) =>
+    direction * (compareGames(a, b, settings.sort_key) || nameCollator.compare(a.name, b.name))
+  );
+
+  // Grouping keeps the chosen order inside each library (the sort is stable)
+  if (settings.group_by_library) {
+    sorted.sort((a, b) => nameCollator.compare(a.library_path, b.library_path));
+  }
+  return sorted;
+};
+
+const buildGameRows = (games: Game[], groupByLibrary: boolean) => {
+  const groupSizes = new Map<string, number>();
+  if (groupByLibrary) {
+    games.forEach(g => groupSizes.set(g.library_path, (groupSizes.get(g.library_path) || 0) + 1));
+  }
+
+  const rows: GameListRow[] = [];
+  let top = 0;
+  games.forEach((game, index) => {
+    if (groupByLibrary && (index === 0 || games[index - 1].library_path !== game.library_path)) {
+      rows.push({ type: 'group', library: game.library_path, count: groupSizes.get(game.library_path) || 0, top });
+      top += GROUP_ROW_HEIGHT;
+    }
+    rows.push({ type: 'game', game, index, top });
+    top += GAME_ROW_HEIGHT;
+  });
+
+  return { rows, height: top };
+};
+
+const rowHeight = (row: GameListRow) => row.type === 'group' ? GROUP_ROW_HEIGHT : GAME_ROW_HEIGHT;
+
+// Index of the first row that ends below `offset`
+const findFirstRow = (rows: GameListRow[], offset: number) => {
+  let low = 0;
+  let high = rows.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (rows[mid].top + rowHeight(rows[mid]) <= offset) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+const FOCUSABLE_SELECTOR = 'button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), a[href], [tabindex]:not([tabindex="-1"])';
+
+interface ModalProps {
+  label: string;
+  // Escape, left out where the dialog needs an answer
+  onClose?: () => void;
+  // Enter, left out while the primary action is unavailable
+  onConfirm?: () => void;
+  backdrop?: string;
+  children: ReactNode;
+}
+
+// Takes focus when opened, keeps Tab inside and gives focus back to whatever opened it
+function Modal({ label, onClose, onConfirm, backdrop = 'bg-black/70', children }: ModalProps) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const opener = document.activeElement as HTMLElement | null;
+    dialogRef.current?.focus();
+    return () => opener?.focus();
+  }, []);
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Escape' && onClose) {
+      e.preventDefault();
+      onClose();
+      return;
+    }
+
+    // Buttons, selects and links keep their own Enter
+    if (e.key === 'Enter' && onConfirm && !(e.target as HTMLElement).closest('button, select, textarea, a')) {
+      e.preventDefault();
+      onConfirm();
+      return;
+    }
+
+    if (e.key !== 'Tab' || !dialogRef.current) return;
+
+    const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+    if (focusable.length === 0) {
+      e.preventDefault();
+      return;
+    }
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && (document.activeElement === first || document.activeElement === dialogRef.current)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={label}
+      tabIndex={-1}
+      onKeyDown={handleKeyDown}
+      className={`fixed inset-0 ${backdrop} backdrop-blur-sm flex items-center justify-center z-50 p-4 focus:outline-none`}
+    >
+      {children}
+    </div>
+  );
+}
+
 function App() {
   const [games, setGames] = useState<Game[]>([]);
-  const [filteredGames, setFilteredGames] = useState<Game[]>([]);
-  const [steamappsPath, setSteamappsPath] = useState(localStorage.getItem('steamappsPath') || 'C:/Program Files (x86)/Steam/steamapps');
+  const [steamappsPath, setSteamappsPath] = useState(localStorage.getItem('steamappsPath') || '');
+  const [steamPath, setSteamPath] = useState(localStorage.getItem('steamPath') || '');
+  const [steamInstalls, setSteamInstalls] = useState<SteamInstall[]>([]);
+  const [extraShortcutLocations, setExtraShortcutLocations] = useState<string[]>(JSON.parse(localStorage.getItem('shortcutLocations') || '[]'));
+  const [downloadSettings, setDownloadSettings] = useState<DownloadSettings>({
+    ...DEFAULT_DOWNLOAD_SETTINGS,
+    ...JSON.parse(localStorage.getItem('downloadSettings') || '{}')
+  });
+  const [quickFixWorkers, setQuickFixWorkers] = useState(Number(localStorage.getItem('quickFixWorkers')) || DEFAULT_QUICK_FIX_WORKERS);
+  const [backupSettings, setBackupSettings] = useState<BackupSettings>({
+    ...DEFAULT_BACKUP_SETTINGS,
+    ...JSON.parse(localStorage.getItem('backupSettings') || '{}')
+  });
+  const [exclusions, setExclusions] = useState<ExclusionSettings>({
+    ...DEFAULT_EXCLUSION_SETTINGS,
+    ...JSON.parse(localStorage.getItem('exclusionSettings') || '{}')
+  });
+  const [showHidden, setShowHidden] = useState(false);
+  const [gameListSettings, setGameListSettings] = useState<GameListSettings>({
+    ...DEFAULT_GAME_LIST_SETTINGS,
+    ...JSON.parse(localStorage.getItem('gameListSettings') || '{}')
+  });
+  const [visibleRows, setVisibleRows] = useState({ start: 0, end: 0 });
+  const [missingArtwork, setMissingArtwork] = useState<Set<string>>(new Set());
+  const [focusedGame, setFocusedGame] = useState<string | null>(null);
+  const [trayAgent, setTrayAgent] = useState(localStorage.getItem('trayAgent') === 'true');
+  const [agentHistory, setAgentHistory] = useState<AgentRecord[]>([]);
+  const [detectedShortcutLocations, setDetectedShortcutLocations] = useState<string[]>([]);
   const [selectedGames, setSelectedGames] = useState<Set<string>>(new Set());
   const [isProcessing, setIsProcessing] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
@@ -58,8 +531,52 @@ function App() {
   const [isQuickFixing, setIsQuickFixing] = useState(false);
   const [quickFixResults, setQuickFixResults] = useState<ShortcutFix[]>([]);
   const [showQuickFixResults, setShowQuickFixResults] = useState(false);
+  const [quickFixProgress, setQuickFixProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [isCancellingQuickFix, setIsCancellingQuickFix] = useState(false);
+  const [isDiagnosing, setIsDiagnosing] = useState(false);
+  const [diagnoses, setDiagnoses] = useState<ShortcutDiagnosis[]>([]);
+  const [cleanupGroups, setCleanupGroups] = useState<CleanupGroup[] | null>(null);
+  const [cleanupSelected, setCleanupSelected] = useState<Set<string>>(new Set());
+  const [cleanupAction, setCleanupAction] = useState<CleanupAction>('quarantine');
+  const [isPlanningCleanup, setIsPlanningCleanup] = useState(false);
+  const [isCleaningUp, setIsCleaningUp] = useState(false);
+  const [confirmCleanup, setConfirmCleanup] = useState(false);
+  const [selectedShortcuts, setSelectedShortcuts] = useState<Set<string>>(new Set());
+  const [showDiagnosis, setShowDiagnosis] = useState(false);
+  const [listView, setListView] = useState<'games' | 'non_steam'>('games');
+  const [nonSteamShortcuts, setNonSteamShortcuts] = useState<NonSteamShortcut[]>([]);
+  const [isLoadingNonSteam, setIsLoadingNonSteam] = useState(false);
+  const [showCreateShortcutsModal, setShowCreateShortcutsModal] = useState(false);
+  const [shortcutOnDesktop, setShortcutOnDesktop] = useState(true);
+  const [shortcutInStartMenu, setShortcutInStartMenu] = useState(false);
+  const [isCreatingShortcuts, setIsCreatingShortcuts] = useState(false);
+  const [unfinishedRepairs, setUnfinishedRepairs] = useState<RepairJournal[]>([]);
+  const [showUnfinishedRepairs, setShowUnfinishedRepairs] = useState(false);
+  const [rollbackConflict, setRollbackConflict] = useState<RepairJournal | null>(null);
+  const [restoreAsName, setRestoreAsName] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const [changeSets, setChangeSets] = useState<ChangeSetInfo[]>([]);
+  const [expandedChangeSet, setExpandedChangeSet] = useState<string | null>(null);
+  const [undoingChangeSet, setUndoingChangeSet] = useState<string | null>(null);
+  const [showAudit, setShowAudit] = useState(false);
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [isAuditing, setIsAuditing] = useState(false);
+  const [auditBusyPath, setAuditBusyPath] = useState<string | null>(null);
+  const [showIconCache, setShowIconCache] = useState(false);
+  const [cachedIcons, setCachedIcons] = useState<CachedIcon[]>([]);
+  const [isVerifyingIcons, setIsVerifyingIcons] = useState(false);
+  const [iconCacheBusy, setIconCacheBusy] = useState<'redownload' | 'purge' | null>(null);
+  const [confirmPurgeIcons, setConfirmPurgeIcons] = useState(false);
   const [toastCounter, setToastCounter] = useState(0);
   const hasInitialScanRun = useRef(false);
+  const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const gameListRef = useRef<HTMLDivElement>(null);
+  const selectionAnchor = useRef<string | null>(null);
+  const settingsPanelRef = useRef<HTMLDivElement>(null);
+  const settingsButtonRef = useRef<HTMLButtonElement>(null);
+  // Generation of the latest Steam manifest wait, doubles as its id for cancel_manifest_wait
+  const manifestWaitRef = useRef(0);
+  const deferredSearchQuery = useDeferredValue(searchQuery);
 
   const minimizeWindow = () => {
     getCurrentWindow().minimize();
@@ -69,6 +586,12 @@ function App() {
     getCurrentWindow().close();
   };
 
+  // Focus goes back to the gear button so keyboard users don't land at the top of the page
+  const closeSettings = () => {
+    setShowSettings(false);
+    settingsButtonRef.current?.focus();
+  };
+
   const startDragging = async (e: any) => {
     if (e.button !== 0) return;
 
@@ -80,35 +603,190 @@ function App() {
 };
 
   useEffect(() => {
-    loadGames();
+    initializeSteam();
+    loadUnfinishedRepairs(true);
+    invoke<number>('prune_backups', { maxAgeDays: backupSettings.max_age_days, maxSizeMb: backupSettings.max_size_mb })
+      .catch(err => console.error('Failed to prune backups:', err));
   }, []);
 
-  useEffect(() => {
-    let filtered = games;
-    
-    // Filter out system games
-    filtered = filtered.filter(g => 
-      !FILTERED_GAMES.some(excluded => g.name.includes(excluded))
+  const compiledExclusionRules = useMemo(() => exclusions.rules.map(compileExclusionRule), [exclusions.rules]);
+
+  // Exclusion rules only run when the games or the rules change, not on every keystroke
+  const hiddenGames = useMemo(
+    () => new Set(games.filter(g => isExcluded(g, exclusions.hide_tools, compiledExclusionRules)).map(g => g.app_id)),
+    [games, exclusions.hide_tools, compiledExclusionRules]
+  );
+
+  const exclusionMatchCounts = useMemo(
+    () => compiledExclusionRules.map(rule => games.filter(rule.matches).length),
+    [games, compiledExclusionRules]
+  );
+
+  const filteredGames = useMemo(() => {
+    const query = deferredSearchQuery.toLowerCase();
+    const health = filterStatus.startsWith('health:') ? filterStatus.slice('health:'.length) : null;
+
+    const filtered = games.filter(g =>
+      (showHidden || !hiddenGames.has(g.app_id)) &&
+      (!query || g.name.toLowerCase().includes(query) || g.app_id.includes(query)) &&
+      (health ? g.shortcut_health === health : filterStatus === 'all' || g.status === filterStatus)
     );
-    
-    if (searchQuery) {
-      filtered = filtered.filter(g => 
-        g.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        g.app_id.includes(searchQuery)
-      );
-    }
-    
-    if (filterStatus !== 'all') {
-      filtered = filtered.filter(g => g.status === filterStatus);
+
+    return sortGames(filtered, gameListSettings);
+  }, [games, hiddenGames, deferredSearchQuery, filterStatus, showHidden, gameListSettings]);
+
+  const gameRows = useMemo(
+    () => buildGameRows(filteredGames, gameListSettings.group_by_library),
+    [filteredGames, gameListSettings.group_by_library]
+  );
+
+  // Scrolling only re-renders when a different set of rows comes into view
+  const updateVisibleRows = () => {
+    const scrollArea = scrollAreaRef.current;
+    const list = gameListRef.current;
+    if (!scrollArea || !list) return;
+
+    const top = scrollArea.getBoundingClientRect().top - list.getBoundingClientRect().top;
+    const start = findFirstRow(gameRows.rows, top - LIST_OVERSCAN_PX);
+    const end = findFirstRow(gameRows.rows, top + scrollArea.clientHeight + LIST_OVERSCAN_PX) + 1;
+    setVisibleRows(prev => prev.start === start && prev.end === end ? prev : { start, end });
+  };
+
+  useEffect(() => {
+    updateVisibleRows();
+
+    // Panels opening above the list move it without a scroll event
+    const scrollArea = scrollAreaRef.current;
+    if (!scrollArea) return;
+    const observer = new ResizeObserver(() => updateVisibleRows());
+    observer.observe(scrollArea);
+    if (scrollArea.firstElementChild) {
+      observer.observe(scrollArea.firstElementChild);
     }
-    
-    setFilteredGames(filtered);
-  }, [games, searchQuery, filterStatus]);
+    return () => observer.disconnect();
+  }, [gameRows, listView]);
+
+  // Ctrl+A selects every listed game unless a text field or a dialog has focus
+  useEffect(() => {
+    const handleSelectAll = (e: globalThis.KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'a' || listView !== 'games' || isProcessing) return;
+      if ((e.target as HTMLElement).closest('input:not([type="checkbox"]), textarea, select, [aria-modal="true"]')) return;
+
+      e.preventDefault();
+      setSelectedGames(new Set(filteredGames.map(g => g.app_id)));
+    };
+
+    window.addEventListener('keydown', handleSelectAll);
+    return () => window.removeEventListener('keydown', handleSelectAll);
+  }, [filteredGames, listView, isProcessing]);
 
   useEffect(() => {
     localStorage.setItem('steamappsPath', steamappsPath);
   }, [steamappsPath]);
 
+  useEffect(() => {
+    localStorage.setItem('steamPath', steamPath);
+  }, [steamPath]);
+
+  useEffect(() => {
+    localStorage.setItem('shortcutLocations', JSON.stringify(extraShortcutLocations));
+  }, [extraShortcutLocations]);
+
+  useEffect(() => {
+    localStorage.setItem('downloadSettings', JSON.stringify(downloadSettings));
+  }, [downloadSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('quickFixWorkers', String(quickFixWorkers));
+  }, [quickFixWorkers]);
+
+  useEffect(() => {
+    localStorage.setItem('backupSettings', JSON.stringify(backupSettings));
+  }, [backupSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('exclusionSettings', JSON.stringify(exclusions));
+  }, [exclusions]);
+
+  useEffect(() => {
+    localStorage.setItem('gameListSettings', JSON.stringify(gameListSettings));
+  }, [gameListSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('trayAgent', String(trayAgent));
+  }, [trayAgent]);
+
+  useEffect(() => {
+    if (!trayAgent) {
+      invoke('set_tray_agent', { enabled: false, settings: null })
+        .catch(err => addToast(`Tray mode failed: ${err}`, 'error'));
+      return;
+    }
+    if (!steamappsPath) return;
+
+    // Every restart rescans the shortcuts, so wait until the settings stop changing
+    const timer = setTimeout(() => {
+      invoke('set_tray_agent', {
+        enabled: true,
+        settings: { steamapps_path: steamappsPath, extra_locations: extraShortcutLocations, download: downloadSettings }
+      }).catch(err => addToast(`Tray mode failed: ${err}`, 'error'));
+    }, TRAY_AGENT_RESTART_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [trayAgent, steamappsPath, extraShortcutLocations, downloadSettings]);
+
+  useEffect(() => {
+    const unlisten = listen<ShortcutFix>('agent-fix', (event) => {
+      const fix = event.payload;
+      setAgentHistory(prev => [{ fixed_at: Math.floor(Date.now() / 1000), fix }, ...prev]);
+      if (fix.success) {
+        addToast(`Tray agent fixed ${fix.name}`, 'success');
+      } else {
+        addToast(`Tray agent could not fix ${fix.name}: ${fix.error}`, 'error');
+      }
+    });
+
+    return () => {
+      unlisten.then(stop => stop());
+    };
+  }, []);
+
+  useEffect(() => {
+    if (showHistory) {
+      loadChangeSets();
+    }
+  }, [showHistory]);
+
+  useEffect(() => {
+    if (showAudit) {
+      runAudit();
+    }
+  }, [showAudit]);
+
+  useEffect(() => {
+    if (showIconCache) {
+      verifyIconCache();
+    }
+  }, [showIconCache]);
+
+  useEffect(() => {
+    if (listView === 'non_steam') {
+      loadNonSteamShortcuts();
+    }
+  }, [listView]);
+
+  useEffect(() => {
+    if (showSettings) {
+      settingsPanelRef.current?.focus();
+      invoke<string[]>('detect_shortcut_locations')
+        .then(setDetectedShortcutLocations)
+        .catch(err => console.error('Failed to detect shortcut locations:', err));
+      invoke<AgentRecord[]>('get_agent_history')
+        .then(setAgentHistory)
+        .catch(err => console.error('Failed to load tray agent history:', err));
+    }
+  }, [showSettings]);
+
   const addToast = (message: string, type: Toast['type']) => {
     const id = Date.now() + toastCounter;
     setToastCounter(prev => prev + 1);
@@ -118,20 +796,76 @@ function App() {
     }, 4000);
   };
   
-  const loadGames = async () => {
+  const samePath = (a: string, b: string) => {
+    const normalize = (p: string) => p.replace(/\\/g, '/').replace(/\/+$/, '').toLowerCase();
+    return normalize(a) === normalize(b);
+  };
+
+  // First launch needs no configuration, later launches keep the saved choice
+  const initializeSteam = async () => {
+    let path = steamappsPath;
+
+    try {
+      const installs = await invoke<SteamInstall[]>('detect_steam_installs');
+      setSteamInstalls(installs);
+
+      const chosen = installs.find(i => samePath(i.path, steamPath))
+        ?? installs.find(i => path && i.libraries.some(l => samePath(l, path)))
+        ?? installs[0];
+
+      if (chosen) {
+        await invoke('set_steam_path', { path: chosen.path });
+        setSteamPath(chosen.path);
+        if (!path) {
+          path = chosen.steamapps;
+          setSteamappsPath(path);
+        }
+      }
+    } catch (err) {
+      console.error('Failed to detect Steam:', err);
+    }
+
+    if (!path) {
+      addToast('Steam was not found, set the steamapps folder in Settings', 'error');
+      setShowSettings(true);
+      return;
+    }
+
+    await loadGames(path);
+  };
+
+  const chooseSteamInstall = async (installPath: string) => {
+    const install = steamInstalls.find(i => i.path === installPath);
+    if (!install) return;
+
+    try {
+      await invoke('set_steam_path', { path: install.path });
+      setSteamPath(install.path);
+      setSteamappsPath(install.steamapps);
+      await loadGames(install.steamapps);
+    } catch (err) {
+      addToast(`Failed to switch Steam installation: ${err}`, 'error');
+    }
+  };
+
+  const loadGames = async (path = steamappsPath) => {
     try {
     setIsScanning(true);
-    const scannedGames = await invoke<Game[]>('scan_games', { steamappsPath });
-    const validGames = scannedGames.filter(g =>
-        !FILTERED_GAMES.some(excluded => g.name.includes(excluded))
-    );
+    const scannedGames = await invoke<Game[]>('scan_games', {
+        steamappsPath: path,
+        extraLocations: extraShortcutLocations
+    });
+    // Hidden games stay in the list so "Show hidden" can bring them back without a rescan
+    const visibleCount = scannedGames.filter(g => !isExcluded(g, exclusions.hide_tools, compiledExclusionRules)).length;
 
-    setGames(validGames.map(g => ({ ...g, status: 'ready', progress: 0 })));
+    setGames(scannedGames.map(g => ({ ...g, status: 'ready', progress: 0 })));
+    // Steam may have cached artwork for these games since the last scan
+    setMissingArtwork(new Set());
 
     if (!hasInitialScanRun.current) {
         hasInitialScanRun.current = true;
     } else {
-        addToast(`Found ${validGames.length} games across all libraries`, 'success');
+        addToast(`Found ${visibleCount} games across all libraries`, 'success');
     }
     } catch (err) {
     addToast(`Failed to scan games: ${err}`, 'error');
@@ -140,25 +874,289 @@ function App() {
     }
   };
 
-  const selectSteamappsFolder = async () => {
+  // Re-reads shortcut health without touching Deep Repair progress
+  const refreshShortcutHealth = async () => {
     try {
-      const selected = await open({
-        directory: true,
-        multiple: false,
-        defaultPath: steamappsPath,
+      const scannedGames = await invoke<Game[]>('scan_games', {
+        steamappsPath,
+        extraLocations: extraShortcutLocations
       });
-      
-      if (selected && typeof selected === 'string') {
-        setSteamappsPath(selected);
-        addToast('Steam path updated', 'info');
-      }
+      const health = new Map(scannedGames.map(g => [g.app_id, g.shortcut_health]));
+      setGames(prev => prev.map(g => ({ ...g, shortcut_health: health.get(g.app_id) ?? g.shortcut_health })));
     } catch (err) {
-      console.error('Failed to select folder:', err);
+      console.error('Failed to refresh shortcut health:', err);
     }
   };
 
-  const toggleGame = (appId: string) => {
-    const newSelected = new Set(selectedGames);
+  const exportReport = async () => {
+    try {
+      const date = new Date().toISOString().slice(0, 10);
+      const path = await save({
+        title: 'Export Report',
+        defaultPath: `steam-shortcut-report-${date}.html`,
+        filters: [
+          { name: 'HTML Report', extensions: ['html'] },
+          { name: 'JSON', extensions: ['json'] },
+          { name: 'CSV', extensions: ['csv'] }
+        ]
+      });
+      if (!path) return;
+
+      const extension = path.split('.').pop()?.toLowerCase();
+      const format = extension === 'json' || extension === 'csv' ? extension : 'html';
+
+      await invoke('export_report', {
+        path,
+        format,
+        steamappsPath,
+        games,
+        fixes: quickFixResults
+      });
+      addToast('Report exported', 'success');
+    } catch (err) {
+      addToast(`Export failed: ${err}`, 'error');
+    }
+  };
+
+  const loadChangeSets = async () => {
+    try {
+      setChangeSets(await invoke<ChangeSetInfo[]>('list_change_sets'));
+    } catch (err) {
+      addToast(`Failed to load history: ${err}`, 'error');
+    }
+  };
+
+  const undoChangeSet = async (changeSet: ChangeSetInfo) => {
+    try {
+      setUndoingChangeSet(changeSet.id);
+      const report = await invoke<UndoReport>('undo_change_set', { runId: changeSet.id });
+
+      if (report.errors.length === 0) {
+        addToast(`Undid ${changeSet.label} (${report.reverted} change(s))`, 'success');
+      } else {
+        addToast(`Undid ${report.reverted} change(s), ${report.errors.length} failed and can be undone again from History`, 'error');
+        report.errors.forEach(e => addToast(`⚠️ ${e}`, 'error'));
+      }
+
+      await loadChangeSets();
+      await loadGames();
+    } catch (err) {
+      addToast(`Undo failed: ${err}`, 'error');
+    } finally {
+      setUndoingChangeSet(null);
+    }
+  };
+
+  const verifyIconCache = async () => {
+    try {
+      setIsVerifyingIcons(true);
+      setCachedIcons(await invoke<CachedIcon[]>('list_cached_icons', {
+        steamappsPath,
+        extraLocations: extraShortcutLocations
+      }));
+    } catch (err) {
+      addToast(`Failed to read icon cache: ${err}`, 'error');
+    } finally {
+      setIsVerifyingIcons(false);
+    }
+  };
+
+  const redownloadInvalidIcons = async () => {
+    try {
+      setIconCacheBusy('redownload');
+      const results = await invoke<IconRefresh[]>('redownload_cached_icons', {
+        steamappsPath,
+        extraLocations: extraShortcutLocations,
+        fileNames: repairableIcons.map(icon => icon.file_name),
+        download: downloadSettings
+      });
+
+      const failed = results.filter(r => !r.success);
+      if (failed.length === 0) {
+        addToast(`Replaced ${results.length} broken icon(s)`, 'success');
+      } else {
+        addToast(`Replaced ${results.length - failed.length} icon(s), ${failed.length} failed`, 'error');
+        failed.forEach(r => addToast(`⚠️ ${r.file_name}: ${r.error}`, 'error'));
+      }
+
+      await verifyIconCache();
+    } catch (err) {
+      addToast(`Re-download failed: ${err}`, 'error');
+    } finally {
+      setIconCacheBusy(null);
+    }
+  };
+
+  const purgeUnreferencedIcons = async () => {
+    try {
+      setIconCacheBusy('purge');
+      const removed = await invoke<number>('purge_cached_icons', {
+        fileNames: unusedIcons.map(icon => icon.file_name)
+      });
+      addToast(`Purged ${removed} unused icon(s), undo it from History`, 'success');
+      await verifyIconCache();
+    } catch (err) {
+      addToast(`Purge failed: ${err}`, 'error');
+    } finally {
+      setIconCacheBusy(null);
+      setConfirmPurgeIcons(false);
+    }
+  };
+
+  const runAudit = async () => {
+    try {
+      setIsAuditing(true);
+      setAuditEntries(await invoke<AuditEntry[]>('audit_libraries', { steamappsPath }));
+    } catch (err) {
+      addToast(`Library audit failed: ${err}`, 'error');
+    } finally {
+      setIsAuditing(false);
+    }
+  };
+
+  // Manifests point at a folder that is gone, so show the manifest itself
+  const openAuditEntry = async (entry: AuditEntry) => {
+    try {
+      await invoke('open_in_file_manager', { path: entry.path });
+    } catch (err) {
+      addToast(`Failed to open ${entry.path}: ${err}`, 'error');
+    }
+  };
+
+  const reinstallAuditEntry = async (entry: AuditEntry) => {
+    try {
+      await invoke('open_steam_url', { url: `steam://install/${entry.app_id}` });
+      addToast(`Asked Steam to install ${entry.name || entry.app_id}`, 'info');
+    } catch (err) {
+      addToast(`Failed to open Steam: ${err}`, 'error');
+    }
+  };
+
+  const quarantineAuditEntry = async (entry: AuditEntry) => {
+    try {
+      setAuditBusyPath(entry.path);
+      const target = await invoke<string>('quarantine_folder', { path: entry.path });
+      addToast(`Moved ${entry.name} to ${target}, undo it from History`, 'success');
+      setAuditEntries(prev => prev.filter(e => e.path !== entry.path));
+    } catch (err) {
+      addToast(`Quarantine failed: ${err}`, 'error');
+    } finally {
+      setAuditBusyPath(null);
+    }
+  };
+
+  const pruneBackups = async () => {
+    try {
+      const removed = await invoke<number>('prune_backups', {
+        maxAgeDays: backupSettings.max_age_days,
+        maxSizeMb: backupSettings.max_size_mb
+      });
+      addToast(removed > 0 ? `Removed ${removed} old backup(s)` : 'No backups to prune', 'info');
+      await loadChangeSets();
+    } catch (err) {
+      addToast(`Prune failed: ${err}`, 'error');
+    }
+  };
+
+  const loadUnfinishedRepairs = async (openIfAny = false) => {
+    try {
+      const journals = await invoke<RepairJournal[]>('get_unfinished_repairs');
+      setUnfinishedRepairs(journals);
+      if (journals.length === 0) {
+        setShowUnfinishedRepairs(false);
+      } else if (openIfAny) {
+        setShowUnfinishedRepairs(true);
+      }
+    } catch (err) {
+      addToast(`Failed to read Deep Repair journal: ${err}`, 'error');
+    }
+  };
+
+  const loadNonSteamShortcuts = async () => {
+    try {
+      setIsLoadingNonSteam(true);
+      const shortcuts = await invoke<NonSteamShortcut[]>('scan_non_steam_shortcuts');
+      setNonSteamShortcuts(shortcuts);
+    } catch (err) {
+      addToast(`Failed to read non-Steam shortcuts: ${err}`, 'error');
+    } finally {
+      setIsLoadingNonSteam(false);
+    }
+  };
+
+  const changeNonSteamPath = async (shortcut: NonSteamShortcut, field: 'exe' | 'icon') => {
+    try {
+      const selected = await open({
+        multiple: false,
+        directory: false,
+        filters: field === 'icon'
+          ? [{ name: 'Images', extensions: ['ico', 'png', 'jpg', 'jpeg', 'tga'] }]
+          : undefined,
+      });
+
+      if (!selected || typeof selected !== 'string') return;
+
+      await invoke('update_non_steam_shortcut', {
+        accountId: shortcut.account_id,
+        index: shortcut.index,
+        exe: field === 'exe' ? selected : null,
+        icon: field === 'icon' ? selected : null
+      });
+
+      addToast(`✅ Updated ${shortcut.app_name}`, 'success');
+      await loadNonSteamShortcuts();
+    } catch (err) {
+      addToast(`Failed to update ${shortcut.app_name}: ${err}`, 'error');
+    }
+  };
+
+  const selectSteamappsFolder = async () => {
+    try {
+      const selected = await open({
+        directory: true,
+        multiple: false,
+        defaultPath: steamappsPath,
+      });
+      
+      if (selected && typeof selected === 'string') {
+        setSteamappsPath(selected);
+        addToast('Steam path updated', 'info');
+      }
+    } catch (err) {
+      console.error('Failed to select folder:', err);
+    }
+  };
+
+  const addShortcutLocation = async () => {
+    try {
+      const selected = await open({
+        directory: true,
+        multiple: false,
+      });
+
+      if (selected && typeof selected === 'string' && !extraShortcutLocations.includes(selected)) {
+        setExtraShortcutLocations(prev => [...prev, selected]);
+        addToast('Shortcut location added', 'info');
+      }
+    } catch (err) {
+      console.error('Failed to select folder:', err);
+    }
+  };
+
+  const removeShortcutLocation = (location: string) => {
+    setExtraShortcutLocations(prev => prev.filter(l => l !== location));
+  };
+
+  const updateExclusionRule = (index: number, rule: ExclusionRule) => {
+    setExclusions(prev => ({ ...prev, rules: prev.rules.map((r, i) => i === index ? rule : r) }));
+  };
+
+  const removeExclusionRule = (index: number) => {
+    setExclusions(prev => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) }));
+  };
+
+  const toggleGame = (appId: string) => {
+    const newSelected = new Set(selectedGames);
     if (newSelected.has(appId)) {
       newSelected.delete(appId);
     } else {
@@ -167,6 +1165,88 @@ function App() {
     setSelectedGames(newSelected);
   };
 
+  // Shift applies the anchor's new state to every game between it and this one
+  const selectGame = (game: Game, index: number, extendRange: boolean) => {
+    if (isProcessing) return;
+
+    const anchor = selectionAnchor.current;
+    const anchorIndex = extendRange && anchor ? filteredGames.findIndex(g => g.app_id === anchor) : -1;
+    if (anchor && anchorIndex !== -1) {
+      const select = selectedGames.has(anchor);
+      const newSelected = new Set(selectedGames);
+      filteredGames
+        .slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+        .forEach(g => select ? newSelected.add(g.app_id) : newSelected.delete(g.app_id));
+      setSelectedGames(newSelected);
+      return;
+    }
+
+    selectionAnchor.current = game.app_id;
+    toggleGame(game.app_id);
+  };
+
+  const handleGameClick = (e: MouseEvent, game: Game, index: number) => {
+    setFocusedGame(game.app_id);
+    selectGame(game, index, e.shiftKey);
+  };
+
+  // Rows outside the rendered window do not exist yet, so scroll by the row's known offset
+  const focusGameRow = (index: number) => {
+    const game = filteredGames[index];
+    const row = gameRows.rows.find(r => r.type === 'game' && r.index === index);
+    const scrollArea = scrollAreaRef.current;
+    const list = gameListRef.current;
+    setFocusedGame(game.app_id);
+    if (!row || !scrollArea || !list) return;
+
+    const rowTop = list.getBoundingClientRect().top - scrollArea.getBoundingClientRect().top + scrollArea.scrollTop + row.top;
+    if (rowTop < scrollArea.scrollTop) {
+      scrollArea.scrollTop = rowTop;
+    } else if (rowTop + GAME_CARD_HEIGHT > scrollArea.scrollTop + scrollArea.clientHeight) {
+      scrollArea.scrollTop = rowTop + GAME_CARD_HEIGHT - scrollArea.clientHeight;
+    }
+  };
+
+  const handleGameListKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (filteredGames.length === 0) return;
+
+    const current = focusedGame ? filteredGames.findIndex(g => g.app_id === focusedGame) : -1;
+    const last = filteredGames.length - 1;
+    const page = Math.max(1, Math.floor((scrollAreaRef.current?.clientHeight ?? 0) / GAME_ROW_HEIGHT));
+
+    switch (e.key) {
+      case 'ArrowDown':
+        focusGameRow(Math.min(current + 1, last));
+        break;
+      case 'ArrowUp':
+        focusGameRow(Math.max(current - 1, 0));
+        break;
+      case 'PageDown':
+        focusGameRow(Math.min(current + page, last));
+        break;
+      case 'PageUp':
+        focusGameRow(Math.max(current - page, 0));
+        break;
+      case 'Home':
+        focusGameRow(0);
+        break;
+      case 'End':
+        focusGameRow(last);
+        break;
+      case ' ':
+      case 'Enter':
+        if (current === -1) {
+          focusGameRow(0);
+        } else {
+          selectGame(filteredGames[current], current, e.shiftKey);
+        }
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
   const selectAll = () => {
     if (selectedGames.size === filteredGames.length) {
       setSelectedGames(new Set());
@@ -181,60 +1261,105 @@ function App() {
     ));
   };
 
-  const waitForConfirmation = (title: string, message: string): Promise<void> => {
-    return new Promise((resolve) => {
+  // A resumed repair skips the steps its journal says are already done
+  // Moves on by itself once the manifest shows Steam is done, Continue stays as a manual override
+  const waitForSteam = async (game: Game, until: 'uninstalled' | 'installing', title: string, message: string): Promise<void> => {
+    const waitId = ++manifestWaitRef.current;
+    let continued = false;
+    // A wait that was continued past or replaced must leave the next step's modal alone
+    const isCurrent = () => !continued && manifestWaitRef.current === waitId;
+
+    const manual = new Promise<void>((resolve) => {
       setConfirmationModal({
         title,
         message,
+        watching: true,
         onConfirm: () => {
+          continued = true;
+          invoke('cancel_manifest_wait', { waitId });
           setConfirmationModal(null);
           resolve();
         }
       });
     });
+
+    const detected = invoke<boolean>('wait_for_manifest', {
+      waitId,
+      steamappsPath,
+      appId: game.app_id,
+      until,
+      timeoutSecs: STEAM_WAIT_TIMEOUT_SECS
+    }).then(found => {
+      if (!isCurrent()) return manual;
+      if (found) {
+        setConfirmationModal(null);
+        return;
+      }
+      // Timed out or cancelled, leave it to the user
+      setConfirmationModal(prev => prev && { ...prev, watching: false });
+      return manual;
+    }).catch(() => {
+      if (isCurrent()) setConfirmationModal(prev => prev && { ...prev, watching: false });
+      return manual;
+    });
+
+    await Promise.race([manual, detected]);
   };
 
-  const processGame = async (game: Game): Promise<boolean> => {
+  const processGame = async (game: Game, from: 'start' | 'uninstall' | 'install' = 'start'): Promise<boolean> => {
     try {
       updateGameStatus(game.app_id, 'processing', 0);
 
-      // Step 1: Rename folder (20%)
-      setCurrentProcessing({ game, step: 'Renaming game folder...' });
-      updateGameStatus(game.app_id, 'processing', 20);
-      const tempName = await invoke<string>('rename_game_folder', {
-        steamappsPath,
-        gamePath: game.path
-      });
+      if (from === 'start') {
+        // Step 1: Rename folder (20%)
+        setCurrentProcessing({ game, step: 'Renaming game folder...' });
+        updateGameStatus(game.app_id, 'processing', 20);
+        await invoke<string>('rename_game_folder', {
+          steamappsPath,
+          gamePath: game.path,
+          appId: game.app_id,
+          name: game.name
+        });
+      }
 
-      // Step 2: Execute uninstall command (40%)
-      setCurrentProcessing({ game, step: 'Opening Steam for uninstall...' });
-      updateGameStatus(game.app_id, 'processing', 40);
-      await invoke('open_steam_url', { url: `steam://uninstall/${game.app_id}` });
-      
-      // Step 3: Wait for user confirmation
-      setCurrentProcessing({ game, step: 'Waiting for uninstall confirmation...' });
-      await waitForConfirmation(
-        `Uninstall ${game.name}`,
-        'Please complete the uninstallation in Steam, then click Continue.'
-      );
+      if (from !== 'install') {
+        // Step 2: Execute uninstall command (40%)
+        setCurrentProcessing({ game, step: 'Opening Steam for uninstall...' });
+        updateGameStatus(game.app_id, 'processing', 40);
+        await invoke('open_steam_url', { url: `steam://uninstall/${game.app_id}` });
+        await invoke('update_repair_step', { appId: game.app_id, step: 'uninstall_requested' });
+        
+        // Step 3: Wait for user confirmation
+        setCurrentProcessing({ game, step: 'Waiting for uninstall confirmation...' });
+        await waitForSteam(
+          game,
+          'uninstalled',
+          `Uninstall ${game.name}`,
+          'Please complete the uninstallation in Steam. This continues on its own once Steam removes the game.'
+        );
 
-      // Step 4: Revert folder name (60%)
-      setCurrentProcessing({ game, step: 'Restoring folder name...' });
-      updateGameStatus(game.app_id, 'processing', 60);
-      await invoke('revert_game_folder', { steamappsPath, tempName });
+        // Step 4: Revert folder name (60%)
+        setCurrentProcessing({ game, step: 'Restoring folder name...' });
+        updateGameStatus(game.app_id, 'processing', 60);
+        await invoke('revert_game_folder', { appId: game.app_id });
+      }
 
       // Step 5: Execute install command (80%)
       setCurrentProcessing({ game, step: 'Opening Steam for install...' });
       updateGameStatus(game.app_id, 'processing', 80);
       await invoke('open_steam_url', { url: `steam://install/${game.app_id}` });
+      await invoke('update_repair_step', { appId: game.app_id, step: 'install_requested' });
       
       // Step 6: Wait for user confirmation
       setCurrentProcessing({ game, step: 'Waiting for install confirmation...' });
-      await waitForConfirmation(
+      await waitForSteam(
+        game,
+        'installing',
         `Install ${game.name}`,
-        'Please start the installation in Steam, then click Continue.'
+        'Please start the installation in Steam. This continues on its own once the download or validation starts.'
       );
 
+      await invoke('complete_repair', { appId: game.app_id });
       updateGameStatus(game.app_id, 'complete', 100);
       addToast(`✅ ${game.name} completed successfully`, 'success');
       return true;
@@ -259,6 +1384,67 @@ function App() {
     setIsProcessing(false);
     setCurrentProcessing(null);
     addToast('🎉 All games processed!', 'success');
+    await loadUnfinishedRepairs(true);
+  };
+
+  const resumeRepair = async (journal: RepairJournal) => {
+    // The manifest may be gone after an uninstall, so fall back to what the journal knows
+    const game = games.find(g => g.app_id === journal.app_id) ?? {
+      name: journal.name,
+      app_id: journal.app_id,
+      path: journal.original_path.split(/[\\/]/).pop() || '',
+      status: 'ready',
+      state_flags: 0,
+      size_on_disk: 0,
+      build_id: '',
+      last_updated: 0,
+      library_path: journal.library_path
+    };
+
+    let from: 'start' | 'uninstall' | 'install' = 'start';
+    if (journal.temp_exists) {
+      from = 'uninstall';
+    } else if (journal.step === 'restored' || journal.step === 'install_requested') {
+      from = 'install';
+    }
+
+    setShowUnfinishedRepairs(false);
+    setIsProcessing(true);
+    await processGame(game, from);
+    setIsProcessing(false);
+    setCurrentProcessing(null);
+    await loadUnfinishedRepairs(true);
+  };
+
+  const rollbackRepair = async (journal: RepairJournal, restoreAs?: string) => {
+    // Never move the folder over one that took its name, ask first
+    if (!restoreAs && journal.temp_exists && journal.original_exists) {
+      const folderName = journal.original_path.split(/[\\/]/).pop() || journal.name;
+      setRestoreAsName(`${folderName} (recovered)`);
+      setRollbackConflict(journal);
+      return;
+    }
+
+    try {
+      const restoredPath = await invoke<string>('rollback_repair', { appId: journal.app_id, restoreAs });
+      setRollbackConflict(null);
+      addToast(journal.temp_exists ? `Restored ${restoredPath}` : `Cleared Deep Repair journal for ${journal.name}`, 'success');
+      await loadUnfinishedRepairs();
+      await loadGames();
+    } catch (err) {
+      addToast(`Rollback failed: ${err}`, 'error');
+    }
+  };
+
+  const keepRenamedFolder = async (journal: RepairJournal) => {
+    try {
+      await invoke('complete_repair', { appId: journal.app_id });
+      setRollbackConflict(null);
+      addToast(`Left ${journal.temp_path} in place`, 'info');
+      await loadUnfinishedRepairs();
+    } catch (err) {
+      addToast(`Failed to clear journal: ${err}`, 'error');
+    }
   };
 
   const cleanupTempFolders = async () => {
@@ -272,20 +1458,142 @@ function App() {
       }
       
       await loadGames();
+      await loadUnfinishedRepairs();
     } catch (err) {
       addToast(`Cleanup failed: ${err}`, 'error');
     }
   };
 
+  const diagnoseShortcuts = async () => {
+    try {
+      setIsDiagnosing(true);
+      addToast('Scanning desktop shortcuts...', 'info');
+
+      const results = await invoke<ShortcutDiagnosis[]>('diagnose_shortcuts', {
+        steamappsPath,
+        extraLocations: extraShortcutLocations
+      });
+
+      if (results.length === 0) {
+        addToast('No Steam shortcuts found on desktop', 'info');
+        return;
+      }
+
+      setDiagnoses(results);
+      setSelectedShortcuts(new Set(
+        results.filter(d => NEEDS_REPAIR.includes(d.health)).map(d => d.path)
+      ));
+      setShowDiagnosis(true);
+    } catch (err) {
+      addToast(`Shortcut scan failed: ${err}`, 'error');
+    } finally {
+      setIsDiagnosing(false);
+    }
+  };
+
+  const planShortcutCleanup = async () => {
+    try {
+      setIsPlanningCleanup(true);
+      const groups = await invoke<CleanupGroup[]>('plan_shortcut_cleanup', {
+        steamappsPath,
+        extraLocations: extraShortcutLocations
+      });
+
+      if (groups.length === 0) {
+        addToast('No dead or duplicate shortcuts found', 'info');
+        return;
+      }
+
+      // Everything dead and every duplicate but the suggested one starts selected
+      setCleanupSelected(new Set(groups.flatMap(g => g.shortcuts.map(d => d.path).filter(path => path !== g.keep))));
+      setConfirmCleanup(false);
+      setCleanupGroups(groups);
+    } catch (err) {
+      addToast(`Shortcut scan failed: ${err}`, 'error');
+    } finally {
+      setIsPlanningCleanup(false);
+    }
+  };
+
+  const toggleCleanupShortcut = (path: string) => {
+    const newSelected = new Set(cleanupSelected);
+    if (newSelected.has(path)) {
+      newSelected.delete(path);
+    } else {
+      newSelected.add(path);
+    }
+    setCleanupSelected(newSelected);
+  };
+
+  const keepCleanupShortcut = (group: CleanupGroup, path: string) => {
+    const newSelected = new Set(cleanupSelected);
+    group.shortcuts.forEach(d => newSelected.add(d.path));
+    newSelected.delete(path);
+    setCleanupSelected(newSelected);
+    setCleanupGroups(prev => prev && prev.map(g => g.game_id === group.game_id ? { ...g, keep: path } : g));
+  };
+
+  const cleanUpShortcuts = async () => {
+    try {
+      setIsCleaningUp(true);
+      const results = await invoke<CleanupResult[]>('clean_up_shortcuts', {
+        paths: Array.from(cleanupSelected),
+        action: cleanupAction
+      });
+
+      const failed = results.filter(r => !r.success);
+      const verb = cleanupAction === 'delete' ? 'Deleted' : 'Quarantined';
+      if (failed.length === 0) {
+        addToast(`${verb} ${results.length} shortcut(s), undo it from History`, 'success');
+      } else {
+        addToast(`${verb} ${results.length - failed.length} shortcut(s), ${failed.length} failed`, 'error');
+        failed.forEach(r => addToast(`⚠️ ${r.error}`, 'error'));
+      }
+
+      setCleanupGroups(null);
+      await refreshShortcutHealth();
+    } catch (err) {
+      addToast(`Cleanup failed: ${err}`, 'error');
+    } finally {
+      setIsCleaningUp(false);
+      setConfirmCleanup(false);
+    }
+  };
+
+  const toggleShortcut = (path: string) => {
+    const newSelected = new Set(selectedShortcuts);
+    if (newSelected.has(path)) {
+      newSelected.delete(path);
+    } else {
+      newSelected.add(path);
+    }
+    setSelectedShortcuts(newSelected);
+  };
+
   const quickFixShortcuts = async () => {
+    if (selectedShortcuts.size === 0) return;
+
+    // Results stream in as each shortcut finishes
+    const unlisten = await listen<QuickFixProgress>('quick-fix-progress', (event) => {
+      setQuickFixResults(prev => [...prev, event.payload.fix]);
+      setQuickFixProgress({ completed: event.payload.completed, total: event.payload.total });
+    });
+
     try {
       setIsQuickFixing(true);
-      addToast('Scanning desktop shortcuts...', 'info');
+      setShowDiagnosis(false);
+      setQuickFixResults([]);
+      setQuickFixProgress({ completed: 0, total: selectedShortcuts.size });
+      setShowQuickFixResults(true);
       
-      const results = await invoke<ShortcutFix[]>('quick_fix_shortcuts');
+      const results = await invoke<ShortcutFix[]>('quick_fix_shortcuts', {
+        paths: Array.from(selectedShortcuts),
+        extraLocations: extraShortcutLocations,
+        download: downloadSettings,
+        workers: quickFixWorkers
+      });
       
       setQuickFixResults(results);
-      setShowQuickFixResults(true);
       
       const successCount = results.filter(r => r.success).length;
       const failCount = results.filter(r => !r.success).length;
@@ -296,23 +1604,63 @@ function App() {
       if (failCount > 0) {
         addToast(`⚠️ ${failCount} shortcut(s) failed`, 'error');
       }
-      if (results.length === 0) {
-        addToast('No Steam shortcuts found on desktop', 'info');
+      if (results.length < selectedShortcuts.size) {
+        addToast(`Quick fix stopped, ${selectedShortcuts.size - results.length} shortcut(s) skipped`, 'info');
       }
     } catch (err) {
       addToast(`Quick fix failed: ${err}`, 'error');
     } finally {
+      unlisten();
       setIsQuickFixing(false);
+      refreshShortcutHealth();
+      setIsCancellingQuickFix(false);
+      setQuickFixProgress(null);
     }
   };
 
-  const getStatusBadge = (status: Game['status']) => {
-    const badges = {
-      ready: { color: 'bg-gray-600', icon: Clock, text: 'Ready' },
-      processing: { color: 'bg-blue-600', icon: Loader2, text: 'Processing' },
-      complete: { color: 'bg-green-600', icon: CheckCircle, text: 'Complete' },
-      error: { color: 'bg-red-600', icon: XCircle, text: 'Error' }
-    };
+  const cancelQuickFix = async () => {
+    setIsCancellingQuickFix(true);
+    await invoke('cancel_quick_fix');
+  };
+
+  const createShortcuts = async () => {
+    const gamesToCreate = games.filter(g => selectedGames.has(g.app_id));
+    if (gamesToCreate.length === 0) return;
+
+    try {
+      setIsCreatingShortcuts(true);
+      setShowCreateShortcutsModal(false);
+
+      const results = await invoke<CreatedShortcut[]>('create_shortcuts', {
+        games: gamesToCreate,
+        desktop: shortcutOnDesktop,
+        startMenu: shortcutInStartMenu,
+        download: downloadSettings,
+        extraLocations: extraShortcutLocations
+      });
+
+      const successCount = results.filter(r => r.success).length;
+      const failed = results.filter(r => !r.success);
+
+      if (successCount > 0) {
+        addToast(`✅ Created ${successCount} shortcut(s)!`, 'success');
+      }
+      failed.forEach(r => addToast(`⚠️ ${r.name} (${r.location}): ${r.error}`, 'error'));
+    } catch (err) {
+      addToast(`Failed to create shortcuts: ${err}`, 'error');
+    } finally {
+      setIsCreatingShortcuts(false);
+      refreshShortcutHealth();
+    }
+  };
+
+  const getStatusBadge = (status: Game['status']) => {
+    const badges = {
+      ready: { color: 'bg-gray-600', icon: Clock, text: 'Ready' },
+      processing: { color: 'bg-blue-600', icon: Loader2, text: 'Processing' },
+      complete: { color: 'bg-green-600', icon: CheckCircle, text: 'Complete' },
+      error: { color: 'bg-red-600', icon: XCircle, text: 'Error' }
+    };
     const badge = badges[status];
     const Icon = badge.icon;
     return (
@@ -323,13 +1671,17 @@ function App() {
     );
   };
 
-  const stats = {
-    total: games.filter(g => !FILTERED_GAMES.some(excluded => g.name.includes(excluded))).length,
+  const stats = useMemo(() => ({
+    total: games.length - hiddenGames.size,
     selected: selectedGames.size,
     complete: games.filter(g => g.status === 'complete').length,
     processing: games.filter(g => g.status === 'processing').length,
     error: games.filter(g => g.status === 'error').length
-  };
+  }), [games, hiddenGames, selectedGames]);
+
+  const invalidIcons = cachedIcons.filter(icon => !icon.valid);
+  const repairableIcons = invalidIcons.filter(icon => icon.app_id);
+  const unusedIcons = cachedIcons.filter(icon => !icon.installed && icon.shortcuts === 0);
 
   return (
     <div className="h-screen flex flex-col bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 text-white overflow-hidden">
@@ -412,7 +1764,7 @@ function App() {
         <div className="flex items-center gap-3 flex-1">
         <img
             src={titlebarIcon}
-            alt="App icon"
+            alt=""
             className="w-6 h-6"
             draggable={false}
         />
@@ -422,23 +1774,28 @@ function App() {
         <button
           data-tauri-drag-region="false"
           onClick={async () => minimizeWindow()}
+          aria-label="Minimize"
+          title="Minimize"
           className="p-2 hover:bg-gray-700 rounded-lg">
             <Minimize className="w-4 h-4" />
           </button>
         <button
             data-tauri-drag-region="false"
             onClick={async () => closeWindow()}
+            aria-label="Close"
+            title="Close"
             className="p-2 hover:bg-red-600 rounded-lg">
             <X className="w-4 h-4" />
         </button>
         </div>
       </div>
 
-      {/* Toasts */}
-      <div className="fixed top-16 right-4 z-50 space-y-2">
+      {/* Toasts, announced by screen readers as they appear */}
+      <div className="fixed top-16 right-4 z-50 space-y-2" role="status" aria-live="polite">
         {toasts.map(toast => (
           <div
             key={toast.id}
+            role={toast.type === 'error' ? 'alert' : undefined}
             className={`px-4 py-3 rounded-lg shadow-xl backdrop-blur-sm animate-in slide-in-from-right ${
               toast.type === 'success' ? 'bg-green-500/90' :
               toast.type === 'error' ? 'bg-red-500/90' : 'bg-blue-500/90'
@@ -456,12 +1813,51 @@ function App() {
             <div>
               <p className="text-sm text-gray-400">Repair broken shortcuts across all libraries</p>
             </div>
-            <button
-              onClick={() => setShowSettings(!showSettings)}
-              className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700 transition-all hover:scale-105"
-            >
-              <Settings className="w-5 h-5" />
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={exportReport}
+                title="Export Report"
+                aria-label="Export Report"
+                className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700 transition-all hover:scale-105"
+              >
+                <FileDown className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowIconCache(true)}
+                title="Icon Cache"
+                aria-label="Icon Cache"
+                className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700 transition-all hover:scale-105"
+              >
+                <Images className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowAudit(true)}
+                title="Library Audit"
+                aria-label="Library Audit"
+                className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700 transition-all hover:scale-105"
+              >
+                <ClipboardList className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowHistory(true)}
+                title="History"
+                aria-label="History"
+                className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700 transition-all hover:scale-105"
+              >
+                <History className="w-5 h-5" />
+              </button>
+              <button
+                ref={settingsButtonRef}
+                onClick={() => setShowSettings(!showSettings)}
+                title="Settings"
+                aria-label="Settings"
+                aria-expanded={showSettings}
+                aria-controls="settings-panel"
+                className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700 transition-all hover:scale-105"
+              >
+                <Settings className="w-5 h-5" />
+              </button>
+            </div>
           </div>
 
           {/* Stats Bar */}
@@ -506,21 +1902,50 @@ function App() {
       </div>
 
       {/* Main Content Area - Scrollable */}
-      <div className="flex-1 overflow-y-auto custom-scrollbar">
+      <div ref={scrollAreaRef} onScroll={updateVisibleRows} className="flex-1 overflow-y-auto custom-scrollbar">
         <div className="px-6 py-4">
           {/* Settings Panel */}
           {showSettings && (
-            <div className="mb-4 p-6 rounded-2xl bg-gradient-to-br from-gray-800 to-gray-900 border border-gray-700 shadow-2xl">
+            <div
+              id="settings-panel"
+              ref={settingsPanelRef}
+              role="region"
+              aria-labelledby="settings-title"
+              tabIndex={-1}
+              onKeyDown={(e) => e.key === 'Escape' && closeSettings()}
+              className="mb-4 p-6 rounded-2xl bg-gradient-to-br from-gray-800 to-gray-900 border border-gray-700 shadow-2xl focus:outline-none"
+            >
               <div className="flex items-center justify-between mb-4">
-                <h3 className="text-lg font-semibold flex items-center gap-2">
+                <h3 id="settings-title" className="text-lg font-semibold flex items-center gap-2">
                   <Settings className="w-5 h-5" />
                   Settings
                 </h3>
-                <button onClick={() => setShowSettings(false)} className="p-2 hover:bg-gray-700 rounded-lg">
+                <button onClick={closeSettings} aria-label="Close settings" className="p-2 hover:bg-gray-700 rounded-lg">
                   <X className="w-5 h-5" />
                 </button>
               </div>
               <div className="space-y-4">
+                {steamInstalls.length > 1 && (
+                  <div>
+                    <label className="block text-sm text-gray-400 mb-2">Steam Installation</label>
+                    <div className="relative">
+                      <select
+                        value={steamPath}
+                        onChange={(e) => chooseSteamInstall(e.target.value)}
+                        aria-label="Steam installation"
+                        className="w-full appearance-none pl-4 pr-10 py-3 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white cursor-pointer"
+                      >
+                        {steamInstalls.map(install => (
+                          <option key={install.path} value={install.path}>
+                            {install.path} ({install.source}, {install.libraries.length} {install.libraries.length === 1 ? 'library' : 'libraries'})
+                          </option>
+                        ))}
+                      </select>
+                      <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none" />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">More than one Steam installation was found. Pick the one you play from.</p>
+                  </div>
+                )}
                 <div>
                   <label className="block text-sm text-gray-400 mb-2">Steam Steamapps Folder</label>
                   <div className="flex gap-2">
@@ -528,19 +1953,215 @@ function App() {
                       type="text"
                       value={steamappsPath}
                       onChange={(e) => setSteamappsPath(e.target.value)}
+                      aria-label="Steam steamapps folder"
                       className="flex-1 px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
                     />
                     <button 
                       onClick={selectSteamappsFolder}
+                      aria-label="Browse for steamapps folder"
                       className="px-4 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
                     >
                       <FolderOpen className="w-5 h-5" />
                     </button>
                   </div>
                 </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-2">Shortcut Locations</label>
+                  <div className="space-y-2">
+                    {detectedShortcutLocations.map(location => (
+                      <div key={location} className="flex items-center gap-2 px-4 py-2 bg-gray-900/50 border border-gray-800 rounded-lg">
+                        <span className="flex-1 text-sm text-gray-400 truncate">{location}</span>
+                        <span className="text-xs text-gray-500">Auto-detected</span>
+                      </div>
+                    ))}
+                    {extraShortcutLocations.map(location => (
+                      <div key={location} className="flex items-center gap-2 px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg">
+                        <span className="flex-1 text-sm text-white truncate">{location}</span>
+                        <button
+                          onClick={() => removeShortcutLocation(location)}
+                          aria-label={`Remove ${location}`}
+                          className="p-1 hover:bg-gray-700 rounded-lg transition-colors"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      onClick={addShortcutLocation}
+                      className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors text-sm font-medium flex items-center gap-2"
+                    >
+                      <FolderOpen className="w-4 h-4" />
+                      Add Folder
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">Subfolders are scanned up to 4 levels deep.</p>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-2">Icon Download</label>
+                  <div className="space-y-2">
+                    <input
+                      type="text"
+                      value={downloadSettings.base_url}
+                      onChange={(e) => setDownloadSettings(prev => ({ ...prev, base_url: e.target.value }))}
+                      aria-label="Icon download base URL"
+                      placeholder={DEFAULT_DOWNLOAD_SETTINGS.base_url}
+                      className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white placeholder-gray-600"
+                    />
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={downloadSettings.proxy}
+                        onChange={(e) => setDownloadSettings(prev => ({ ...prev, proxy: e.target.value }))}
+                        aria-label="HTTP proxy"
+                        placeholder="HTTP proxy (e.g. http://proxy:8080)"
+                        className="flex-1 px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white placeholder-gray-600"
+                      />
+                      <input
+                        type="number"
+                        min={0}
+                        max={5}
+                        value={downloadSettings.retries}
+                        onChange={(e) => setDownloadSettings(prev => ({ ...prev, retries: Math.max(0, Number(e.target.value) || 0) }))}
+                        title="Retries"
+                        aria-label="Download retries"
+                        className="w-24 px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+                      />
+                      <button
+                        onClick={() => setDownloadSettings(DEFAULT_DOWNLOAD_SETTINGS)}
+                        className="px-4 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors text-sm"
+                      >
+                        Reset
+                      </button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">Icons are requested from &lt;base URL&gt;/&lt;app id&gt;/&lt;hash&gt;.ico. Point this at a mirror if the Steam CDN is blocked.</p>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-2">Exclusion Rules</label>
+                  <div className="space-y-2">
+                    <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={exclusions.hide_tools}
+                        onChange={(e) => setExclusions(prev => ({ ...prev, hide_tools: e.target.checked }))}
+                      />
+                      Hide tools (apps Steam lists as tools or applications, such as Proton, runtimes and SteamVR)
+                    </label>
+                    {exclusions.rules.map((rule, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <select
+                          value={rule.match}
+                          onChange={(e) => updateExclusionRule(index, { ...rule, match: e.target.value as ExclusionMatch })}
+                          aria-label="Match by"
+                          className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white text-sm cursor-pointer"
+                        >
+                          {(Object.keys(EXCLUSION_MATCH_LABELS) as ExclusionMatch[]).map(match => (
+                            <option key={match} value={match}>{EXCLUSION_MATCH_LABELS[match]}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={rule.pattern}
+                          placeholder={rule.match === 'app_id' ? '1493710' : rule.match === 'regex' ? '^Proton \\d' : 'Dedicated Server'}
+                          onChange={(e) => updateExclusionRule(index, { ...rule, pattern: e.target.value })}
+                          aria-label="Exclusion pattern"
+                          aria-invalid={compiledExclusionRules[index].invalid}
+                          className={`flex-1 px-3 py-2 bg-gray-900 border rounded-lg focus:outline-none text-white text-sm ${
+                            compiledExclusionRules[index].invalid ? 'border-red-500' : 'border-gray-700 focus:border-blue-500'
+                          }`}
+                        />
+                        <span className="text-xs text-gray-500 w-16 text-right">
+                          {exclusionMatchCounts[index]} match(es)
+                        </span>
+                        <button
+                          onClick={() => removeExclusionRule(index)}
+                          aria-label="Remove rule"
+                          className="p-1 hover:bg-gray-700 rounded-lg transition-colors"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => setExclusions(prev => ({ ...prev, rules: [...prev.rules, { match: 'substring', pattern: '' }] }))}
+                      className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors text-sm font-medium flex items-center gap-2"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Add Rule
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">Matching games are hidden from the list and the stats. Names are matched without regard to case.</p>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-2">Tray Mode</label>
+                  <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={trayAgent}
+                      onChange={(e) => setTrayAgent(e.target.checked)}
+                    />
+                    Keep running in the tray and fix new or changed shortcuts automatically
+                  </label>
+                  <p className="text-xs text-gray-500 mt-2">Closing the window hides it to the tray. Quit from the tray menu. Each fix shows a notification and can be undone from History.</p>
+                  {agentHistory.length > 0 && (
+                    <div className="mt-2 max-h-40 overflow-y-auto custom-scrollbar space-y-1">
+                      {agentHistory.slice(0, 20).map((record, index) => (
+                        <div key={index} className="flex items-center gap-2 px-3 py-2 bg-gray-900/50 border border-gray-800 rounded-lg text-xs">
+                          {record.fix.success ? (
+                            <CheckCircle className="w-4 h-4 text-green-400 flex-shrink-0" />
+                          ) : (
+                            <XCircle className="w-4 h-4 text-red-400 flex-shrink-0" />
+                          )}
+                          <span className="flex-1 text-gray-300 truncate" title={record.fix.error || record.fix.path}>
+                            {record.fix.name} <span className="text-gray-500">({record.fix.location})</span>
+                          </span>
+                          <span className="text-gray-500">{new Date(record.fixed_at * 1000).toLocaleString()}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-2">Quick Fix Workers</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={16}
+                    value={quickFixWorkers}
+                    onChange={(e) => setQuickFixWorkers(Math.min(16, Math.max(1, Number(e.target.value) || 1)))}
+                    aria-label="Quick Fix workers"
+                    className="w-24 px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+                  />
+                  <p className="text-xs text-gray-500 mt-2">Number of shortcuts repaired at the same time. Lower it on slow or metered connections.</p>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-2">Backups</label>
+                  <div className="flex items-center gap-2 text-sm text-gray-400">
+                    Keep for
+                    <input
+                      type="number"
+                      min={0}
+                      value={backupSettings.max_age_days}
+                      onChange={(e) => setBackupSettings(prev => ({ ...prev, max_age_days: Math.max(0, Number(e.target.value) || 0) }))}
+                      aria-label="Keep backups for days"
+                      className="w-20 px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+                    />
+                    days, up to
+                    <input
+                      type="number"
+                      min={0}
+                      value={backupSettings.max_size_mb}
+                      onChange={(e) => setBackupSettings(prev => ({ ...prev, max_size_mb: Math.max(0, Number(e.target.value) || 0) }))}
+                      aria-label="Maximum backup size in MB"
+                      className="w-24 px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+                    />
+                    MB
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">Older backups are removed on startup. Use 0 for no limit.</p>
+                </div>
                 <div className="flex gap-2">
                   <button
-                    onClick={loadGames}
+                    onClick={() => loadGames()}
                     disabled={isScanning}
                     className="px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 disabled:from-gray-600 disabled:to-gray-700 rounded-lg transition-all text-sm font-medium flex items-center gap-2"
                   >
@@ -553,6 +2174,15 @@ function App() {
                   >
                     Cleanup Temp Folders
                   </button>
+                  {unfinishedRepairs.length > 0 && (
+                    <button
+                      onClick={() => setShowUnfinishedRepairs(true)}
+                      className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors text-sm font-medium flex items-center gap-2"
+                    >
+                      <AlertTriangle className="w-4 h-4 text-yellow-400" />
+                      Unfinished Repairs ({unfinishedRepairs.length})
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -565,6 +2195,7 @@ function App() {
               <input
                 type="text"
                 placeholder="Search games by name or App ID..."
+                aria-label="Search games"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="w-full pl-12 pr-4 py-3 bg-gray-800 border border-gray-700 rounded-xl focus:outline-none focus:border-blue-500 text-white placeholder-gray-500"
@@ -574,6 +2205,7 @@ function App() {
               <select
                 value={filterStatus}
                 onChange={(e) => setFilterStatus(e.target.value)}
+                aria-label="Filter games"
                 className="appearance-none pl-4 pr-10 py-3 bg-gray-800 border border-gray-700 rounded-xl focus:outline-none focus:border-blue-500 text-white cursor-pointer"
               >
                 <option value="all">All Games</option>
@@ -581,9 +2213,58 @@ function App() {
                 <option value="processing">Processing</option>
                 <option value="complete">Complete</option>
                 <option value="error">Error</option>
+                <optgroup label="Shortcut">
+                  {(Object.keys(GAME_SHORTCUT_HEALTH_LABELS) as GameShortcutHealth[]).map(health => (
+                    <option key={health} value={`health:${health}`}>{GAME_SHORTCUT_HEALTH_LABELS[health].text}</option>
+                  ))}
+                </optgroup>
               </select>
               <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none" />
             </div>
+            <button
+              onClick={() => setShowHidden(!showHidden)}
+              title={showHidden ? 'Hide excluded games' : 'Show excluded games'}
+              aria-pressed={showHidden}
+              className={`px-4 py-3 rounded-xl border transition-colors flex items-center gap-2 text-sm ${
+                showHidden ? 'bg-blue-600/20 border-blue-500 text-blue-300' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'
+              }`}
+            >
+              {showHidden ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+              {hiddenGames.size} hidden
+            </button>
+            <div className="relative">
+              <select
+                value={gameListSettings.sort_key}
+                onChange={(e) => setGameListSettings(prev => ({ ...prev, sort_key: e.target.value as GameSortKey }))}
+                title="Sort by"
+                aria-label="Sort by"
+                className="appearance-none pl-4 pr-10 py-3 bg-gray-800 border border-gray-700 rounded-xl focus:outline-none focus:border-blue-500 text-white cursor-pointer"
+              >
+                {(Object.keys(GAME_SORT_LABELS) as GameSortKey[]).map(key => (
+                  <option key={key} value={key}>{GAME_SORT_LABELS[key]}</option>
+                ))}
+              </select>
+              <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none" />
+            </div>
+            <button
+              onClick={() => setGameListSettings(prev => ({ ...prev, sort_desc: !prev.sort_desc }))}
+              title={gameListSettings.sort_desc ? 'Descending' : 'Ascending'}
+              aria-label={gameListSettings.sort_desc ? 'Sort descending' : 'Sort ascending'}
+              className="px-3 py-3 rounded-xl border bg-gray-800 border-gray-700 text-gray-400 hover:text-white transition-colors"
+            >
+              {gameListSettings.sort_desc ? <ArrowDown className="w-4 h-4" /> : <ArrowUp className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={() => setGameListSettings(prev => ({ ...prev, group_by_library: !prev.group_by_library }))}
+              title="Group by library folder"
+              aria-label="Group by library folder"
+              aria-pressed={gameListSettings.group_by_library}
+              className={`px-3 py-3 rounded-xl border transition-colors ${
+                gameListSettings.group_by_library ? 'bg-blue-600/20 border-blue-500 text-blue-300' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'
+              }`}
+            >
+              <Layers className="w-4 h-4" />
+            </button>
           </div>
 
           {/* Action Bar */}
@@ -597,202 +2278,859 @@ function App() {
                   </div>
                   <div>
                     <h3 className="font-semibold text-sm text-green-300">Quick Fix</h3>
-                    <p className="text-xs text-green-400/80">Fixes missing icons in Desktop, Start Menu & OneDrive!</p>
+                    <p className="text-xs text-green-400/80">Fixes missing icons in Desktop, Start Menu, OneDrive & Linux app menus!</p>
                   </div>
                 </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={planShortcutCleanup}
+                    disabled={isPlanningCleanup || isDiagnosing || isQuickFixing || isProcessing}
+                    title="Remove shortcuts to uninstalled games and duplicates"
+                    className="px-4 py-2.5 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-600 rounded-lg transition-colors flex items-center gap-2 font-medium disabled:cursor-not-allowed"
+                  >
+                    {isPlanningCleanup ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                    Clean Up
+                  </button>
+                  <button
+                    onClick={diagnoseShortcuts}
+                    disabled={isDiagnosing || isQuickFixing || isProcessing}
+                    className="px-6 py-2.5 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 disabled:from-gray-600 disabled:to-gray-600 rounded-lg transition-all flex items-center gap-2 font-medium disabled:cursor-not-allowed shadow-lg"
+                  >
+                    {isDiagnosing || isQuickFixing ? (
+                      <>
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        {isDiagnosing ? 'Scanning...' : 'Fixing...'}
+                      </>
+                    ) : (
+                      <>
+                        <Sparkles className="w-4 h-4" />
+                        Quick Fix Icons
+                      </>
+                    )}
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {/* Deep Repair Bar */}
+            <div className="p-4 rounded-xl bg-gradient-to-r from-gray-800 to-gray-900 border border-gray-700 flex items-center justify-between">
+              <div className="flex items-center gap-4">
                 <button
-                  onClick={quickFixShortcuts}
-                  disabled={isQuickFixing || isProcessing}
-                  className="px-6 py-2.5 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 disabled:from-gray-600 disabled:to-gray-600 rounded-lg transition-all flex items-center gap-2 font-medium disabled:cursor-not-allowed shadow-lg"
+                  onClick={selectAll}
+                  disabled={filteredGames.length === 0}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-600 rounded-lg transition-colors text-sm font-medium"
                 >
-                  {isQuickFixing ? (
-                    <>
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                      Fixing...
-                    </>
+                  {selectedGames.size === filteredGames.length ? 'Deselect All' : 'Select All'}
+                </button>
+                <div>
+                  <span className="text-gray-400 text-sm">
+                    {selectedGames.size} of {filteredGames.length} selected
+                  </span>
+                  <p className="text-xs text-gray-500">Create missing shortcuts, or Deep Repair as a last resort</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setShowCreateShortcutsModal(true)}
+                  disabled={selectedGames.size === 0 || isProcessing || isQuickFixing || isCreatingShortcuts}
+                  className="px-6 py-2.5 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-600 rounded-lg transition-colors flex items-center gap-2 font-medium disabled:cursor-not-allowed"
+                >
+                  {isCreatingShortcuts ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
                   ) : (
-                    <>
-                      <Sparkles className="w-4 h-4" />
-                      Quick Fix Icons
-                    </>
+                    <FilePlus className="w-4 h-4" />
+                  )}
+                  Create Shortcuts
+                </button>
+                <button
+                  onClick={() => setShowConfirmModal(true)}
+                  disabled={selectedGames.size === 0 || isProcessing || isQuickFixing}
+                  className="px-6 py-2.5 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-600 rounded-lg transition-all flex items-center gap-2 font-medium disabled:cursor-not-allowed shadow-lg"
+                >
+                  <Play className="w-4 h-4" />
+                  Deep Repair
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Current Processing Status */}
+          {currentProcessing && (
+            <div className="mb-4 p-6 rounded-2xl bg-gradient-to-br from-blue-900/30 to-purple-900/30 border border-blue-700/50 shadow-xl">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                  <Loader2 className="w-6 h-6 text-blue-400 animate-spin" />
+                  <div>
+                    <h3 className="font-semibold text-lg">{currentProcessing.game.name}</h3>
+                    <p className="text-sm text-gray-400">{currentProcessing.step}</p>
+                  </div>
+                </div>
+                <span className="text-2xl font-bold text-blue-400">{currentProcessing.game.progress}%</span>
+              </div>
+              <div className="w-full bg-gray-800 rounded-full h-2 overflow-hidden">
+                <div 
+                  className="h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-500"
+                  style={{ width: `${currentProcessing.game.progress}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* List Tabs */}
+          <div className="mb-4 flex gap-2" role="tablist" aria-label="Lists">
+            <button
+              onClick={() => setListView('games')}
+              role="tab"
+              aria-selected={listView === 'games'}
+              className={`px-4 py-2 rounded-lg transition-colors text-sm font-medium flex items-center gap-2 ${
+                listView === 'games' ? 'bg-blue-600' : 'bg-gray-800 hover:bg-gray-700 text-gray-400'
+              }`}
+            >
+              <Package className="w-4 h-4" />
+              Steam Games
+            </button>
+            <button
+              onClick={() => setListView('non_steam')}
+              role="tab"
+              aria-selected={listView === 'non_steam'}
+              className={`px-4 py-2 rounded-lg transition-colors text-sm font-medium flex items-center gap-2 ${
+                listView === 'non_steam' ? 'bg-blue-600' : 'bg-gray-800 hover:bg-gray-700 text-gray-400'
+              }`}
+            >
+              <Gamepad2 className="w-4 h-4" />
+              Non-Steam Shortcuts
+            </button>
+          </div>
+
+          {/* Games List */}
+          {listView === 'non_steam' ? (
+            isLoadingNonSteam ? (
+              <div className="text-center py-20">
+                <Loader2 className="w-16 h-16 text-gray-700 mx-auto mb-4 animate-spin" />
+              </div>
+            ) : nonSteamShortcuts.length === 0 ? (
+              <div className="text-center py-20">
+                <Gamepad2 className="w-16 h-16 text-gray-700 mx-auto mb-4" />
+                <p className="text-gray-500 text-lg">No non-Steam shortcuts found.</p>
+              </div>
+            ) : (
+              <div className="space-y-3 pb-4">
+                <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30">
+                  <p className="text-sm text-yellow-300">
+                    ⚠️ Close Steam before editing. Steam rewrites shortcuts.vdf when it exits.
+                  </p>
+                </div>
+                {nonSteamShortcuts.map(shortcut => (
+                  <div
+                    key={`${shortcut.account_id}-${shortcut.index}`}
+                    className={`p-5 rounded-xl border ${
+                      shortcut.exe_missing || shortcut.icon_missing
+                        ? 'bg-gradient-to-br from-red-900/20 to-gray-900 border-red-700/50'
+                        : 'bg-gradient-to-br from-gray-800 to-gray-900 border-gray-700'
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <h3 className="font-semibold text-lg truncate">{shortcut.app_name}</h3>
+                          {shortcut.exe_missing && (
+                            <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-red-600 text-xs font-medium">
+                              <AlertTriangle className="w-3 h-3" />
+                              Exe missing
+                            </span>
+                          )}
+                          {shortcut.icon_missing && (
+                            <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-yellow-600 text-xs font-medium">
+                              <AlertTriangle className="w-3 h-3" />
+                              Icon missing
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-0.5">Account: {shortcut.account_name}</p>
+                        <div className="mt-2 space-y-0.5 text-sm">
+                          <p className="text-gray-400 truncate">Exe: <span className="text-gray-300">{shortcut.exe || '—'}</span></p>
+                          <p className="text-gray-400 truncate">Start In: <span className="text-gray-300">{shortcut.start_dir || '—'}</span></p>
+                          <p className="text-gray-400 truncate">Icon: <span className="text-gray-300">{shortcut.icon || 'Uses exe icon'}</span></p>
+                        </div>
+                      </div>
+                      <div className="flex flex-col gap-2">
+                        <button
+                          onClick={() => changeNonSteamPath(shortcut, 'exe')}
+                          className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors text-xs font-medium"
+                        >
+                          Change Exe
+                        </button>
+                        <button
+                          onClick={() => changeNonSteamPath(shortcut, 'icon')}
+                          className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors text-xs font-medium"
+                        >
+                          Change Icon
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )
+          ) : filteredGames.length === 0 ? (
+            <div className="text-center py-20">
+              <Package className="w-16 h-16 text-gray-700 mx-auto mb-4" />
+              <p className="text-gray-500 text-lg">
+                {games.length === 0 ? 'No games found. Check your Steam path in settings.' : 'No games match your filters.'}
+              </p>
+            </div>
+          ) : (
+            <div
+              ref={gameListRef}
+              role="listbox"
+              aria-label="Steam games"
+              aria-multiselectable="true"
+              aria-activedescendant={focusedGame ? `game-${focusedGame}` : undefined}
+              tabIndex={0}
+              onKeyDown={handleGameListKeyDown}
+              className="group/list relative mb-4 rounded-xl focus:outline-none"
+              style={{ height: gameRows.height }}
+            >
+              {gameRows.rows.slice(visibleRows.start, visibleRows.end).map(row => row.type === 'group' ? (
+                <div
+                  key={`group-${row.library}`}
+                  role="presentation"
+                  className="absolute inset-x-0 flex items-center gap-2 text-sm text-gray-400"
+                  style={{ top: row.top, height: GROUP_ROW_HEIGHT }}
+                >
+                  <FolderOpen className="w-4 h-4" />
+                  <span className="font-medium text-gray-300 truncate">{row.library}</span>
+                  <span className="text-gray-500">{row.count} game(s)</span>
+                </div>
+              ) : (
+                <div
+                  key={row.game.app_id}
+                  id={`game-${row.game.app_id}`}
+                  role="option"
+                  aria-selected={selectedGames.has(row.game.app_id)}
+                  aria-setsize={filteredGames.length}
+                  aria-posinset={row.index + 1}
+                  onClick={(e) => handleGameClick(e, row.game, row.index)}
+                  className={`group absolute inset-x-0 px-5 flex items-center rounded-xl border transition-all cursor-pointer select-none ${
+                    selectedGames.has(row.game.app_id)
+                      ? 'bg-gradient-to-r from-blue-900/30 to-purple-900/30 border-blue-500/50'
+                      : 'bg-gradient-to-br from-gray-800 to-gray-900 border-gray-700 hover:border-gray-600 hover:scale-[1.005]'
+                  } ${focusedGame === row.game.app_id ? 'group-focus/list:ring-2 group-focus/list:ring-blue-400' : ''}`}
+                  style={{ top: row.top, height: GAME_CARD_HEIGHT }}
+                >
+                  <div className="flex items-center justify-between gap-4 w-full">
+                    <div className="flex items-center gap-4 flex-1 min-w-0">
+                      <input
+                        type="checkbox"
+                        checked={selectedGames.has(row.game.app_id)}
+                        readOnly
+                        tabIndex={-1}
+                        aria-hidden="true"
+                      />
+                      {missingArtwork.has(row.game.app_id) ? (
+                        <div className="w-[120px] h-14 rounded-lg bg-gray-800 border border-gray-700 flex items-center justify-center flex-shrink-0">
+                          <Gamepad2 className="w-6 h-6 text-gray-600" />
+                        </div>
+                      ) : (
+                        <img
+                          src={convertFileSrc(row.game.app_id, 'artwork')}
+                          alt=""
+                          loading="lazy"
+                          draggable={false}
+                          onError={() => setMissingArtwork(prev => new Set(prev).add(row.game.app_id))}
+                          className="w-[120px] h-14 rounded-lg object-cover bg-gray-800 flex-shrink-0"
+                        />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <h3 className="font-semibold text-lg truncate group-hover:text-blue-400 transition-colors">{row.game.name}</h3>
+                        <div className="flex items-center gap-4 mt-1 min-w-0">
+                          <span className="text-sm text-gray-400 flex-shrink-0">AppID: {row.game.app_id}</span>
+                          <span className="text-sm text-gray-500 truncate">{row.game.path}</span>
+                          {row.game.shortcut_health && (
+                            <span className={`px-2 py-0.5 rounded-full border text-xs font-medium flex-shrink-0 ${GAME_SHORTCUT_HEALTH_LABELS[row.game.shortcut_health].color}`}>
+                              {GAME_SHORTCUT_HEALTH_LABELS[row.game.shortcut_health].text}
+                            </span>
+                          )}
+                          {showHidden && hiddenGames.has(row.game.app_id) && (
+                            <span className="px-2 py-0.5 rounded-full border border-gray-600 text-gray-400 text-xs font-medium flex-shrink-0">
+                              {row.game.is_tool ? 'Hidden tool' : 'Hidden'}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                    {getStatusBadge(row.game.status)}
+                  </div>
+                  {row.game.status === 'processing' && row.game.progress !== undefined && (
+                    <div className="absolute bottom-2 inset-x-5 bg-gray-700 rounded-full h-1.5 overflow-hidden">
+                      <div
+                        className="h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-300"
+                        style={{ width: `${row.game.progress}%` }}
+                      />
+                    </div>
                   )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Info Footer - Fixed at bottom */}
+      <div className="flex-shrink-0 border-t border-gray-800 bg-slate-900/50">
+        <div className="px-6 py-3">
+          <div className="flex gap-3">
+            <Info className="w-4 h-4 text-blue-400 flex-shrink-0 mt-0.5" />
+            <div className="text-xs text-blue-200/80">
+              <p className="font-medium mb-0.5 text-blue-300">💡 Quick Fix: Missing icons? Use this! | Create Shortcuts: Shortcuts don't exist at all? Use this! | Deep Repair: Still broken? Last resort!</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Start Confirmation Modal */}
+      {showConfirmModal && (
+        <Modal label="Confirm Deep Repair" onClose={() => setShowConfirmModal(false)} onConfirm={startProcess} backdrop="bg-black/60">
+          <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-2xl border border-gray-700 p-6 max-w-md w-full shadow-2xl">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="p-3 rounded-xl bg-yellow-500/20">
+                <AlertCircle className="w-6 h-6 text-yellow-400" />
+              </div>
+              <h3 className="text-xl font-bold">Confirm Deep Repair</h3>
+            </div>
+            <div className="mb-4 p-3 rounded-lg bg-blue-500/10 border border-blue-500/30">
+              <p className="text-sm text-blue-300">
+                ⚡ <strong>Already tried Quick Fix and Create Shortcuts?</strong> Deep Repair is the last resort when neither helped.
+              </p>
+            </div>
+            <p className="text-gray-300 mb-6">
+              You're about to deep repair <span className="font-bold text-blue-400">{selectedGames.size} game(s)</span>. This will:
+            </p>
+            <ol className="space-y-2 mb-6 text-sm text-gray-400">
+              <li className="flex items-start gap-2">
+                <span className="text-blue-400 font-bold">1.</span>
+                <span>Temporarily rename each game folder</span>
+              </li>
+              <li className="flex items-start gap-2">
+                <span className="text-blue-400 font-bold">2.</span>
+                <span>Open Steam to uninstall (you'll need to confirm)</span>
+              </li>
+              <li className="flex items-start gap-2">
+                <span className="text-blue-400 font-bold">3.</span>
+                <span>Restore original folder names</span>
+              </li>
+              <li className="flex items-start gap-2">
+                <span className="text-blue-400 font-bold">4.</span>
+                <span>Open Steam to reinstall (you'll need to confirm)</span>
+              </li>
+            </ol>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowConfirmModal(false)}
+                className="flex-1 px-4 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={startProcess}
+                className="flex-1 px-4 py-3 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 rounded-lg transition-all font-medium shadow-lg"
+              >
+                Let's Go!
+              </button>
+            </div>
+          </div>
+        </Modal>
+      )}
+
+      {/* Create Shortcuts Modal */}
+      {showCreateShortcutsModal && (
+        <Modal
+          label="Create Shortcuts"
+          onClose={() => setShowCreateShortcutsModal(false)}
+          onConfirm={shortcutOnDesktop || shortcutInStartMenu ? createShortcuts : undefined}
+          backdrop="bg-black/60"
+        >
+          <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-2xl border border-gray-700 p-6 max-w-md w-full shadow-2xl">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="p-3 rounded-xl bg-blue-500/20">
+                <FilePlus className="w-6 h-6 text-blue-400" />
+              </div>
+              <h3 className="text-xl font-bold">Create Shortcuts</h3>
+            </div>
+            <p className="text-gray-300 mb-4">
+              Create Steam shortcuts for <span className="font-bold text-blue-400">{selectedGames.size} game(s)</span> in:
+            </p>
+            <div className="space-y-2 mb-6">
+              <label className="flex items-center gap-3 p-3 rounded-lg bg-gray-800 border border-gray-700 cursor-pointer hover:border-gray-600">
+                <input
+                  type="checkbox"
+                  checked={shortcutOnDesktop}
+                  onChange={(e) => setShortcutOnDesktop(e.target.checked)}
+                />
+                <Monitor className="w-4 h-4 text-gray-400" />
+                <span className="text-sm">Desktop</span>
+              </label>
+              <label className="flex items-center gap-3 p-3 rounded-lg bg-gray-800 border border-gray-700 cursor-pointer hover:border-gray-600">
+                <input
+                  type="checkbox"
+                  checked={shortcutInStartMenu}
+                  onChange={(e) => setShortcutInStartMenu(e.target.checked)}
+                />
+                <LayoutGrid className="w-4 h-4 text-gray-400" />
+                <span className="text-sm">Start Menu</span>
+              </label>
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowCreateShortcutsModal(false)}
+                className="flex-1 px-4 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={createShortcuts}
+                disabled={!shortcutOnDesktop && !shortcutInStartMenu}
+                className="flex-1 px-4 py-3 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-600 disabled:cursor-not-allowed rounded-lg transition-all font-medium shadow-lg"
+              >
+                Create
+              </button>
+            </div>
+          </div>
+        </Modal>
+      )}
+
+      {/* Icon Cache Modal */}
+      {showIconCache && (
+        <Modal
+          label="Icon Cache"
+          onClose={confirmPurgeIcons ? () => setConfirmPurgeIcons(false) : () => setShowIconCache(false)}
+          onConfirm={confirmPurgeIcons && iconCacheBusy === null ? purgeUnreferencedIcons : undefined}
+        >
+          <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-2xl border border-gray-600 p-6 max-w-3xl w-full shadow-2xl max-h-[80vh] flex flex-col">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <div className="p-3 rounded-xl bg-blue-500/20">
+                  <Images className="w-6 h-6 text-blue-400" />
+                </div>
+                <div>
+                  <h3 className="text-xl font-bold">Icon Cache</h3>
+                  <p className="text-sm text-gray-400">
+                    {isVerifyingIcons
+                      ? 'Verifying icons...'
+                      : `${cachedIcons.length} icon(s) • ${formatSize(cachedIcons.reduce((total, icon) => total + icon.size, 0))} • ${invalidIcons.length} invalid • ${unusedIcons.length} unused`}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => setShowIconCache(false)}
+                aria-label="Close"
+                className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar space-y-1.5">
+              {isVerifyingIcons ? (
+                <div className="flex items-center justify-center py-10 text-gray-400">
+                  <Loader2 className="w-6 h-6 animate-spin" />
+                </div>
+              ) : cachedIcons.length === 0 ? (
+                <p className="text-center text-gray-500 py-10">The icon cache is empty.</p>
+              ) : cachedIcons.map(icon => (
+                <div key={icon.file_name} className="px-3 py-2 rounded-lg border bg-gray-900/50 border-gray-700 flex items-center justify-between gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm truncate">
+                      {icon.name ?? <span className="text-gray-500">Unknown app</span>}
+                      {icon.app_id && <span className="text-gray-500"> • {icon.app_id}</span>}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate" title={icon.path}>
+                      {icon.file_name} • {formatSize(icon.size)}
+                      {icon.shortcuts > 0 && ` • ${icon.shortcuts} shortcut(s)`}
+                      {icon.problem && <span className="text-red-400"> • {icon.problem}</span>}
+                    </p>
+                  </div>
+                  <div className="flex gap-1.5 flex-shrink-0">
+                    {!icon.installed && icon.shortcuts === 0 && (
+                      <span className="px-2 py-0.5 rounded-full bg-gray-600 text-xs font-medium">Unused</span>
+                    )}
+                    <span className={`px-2 py-0.5 rounded-full ${icon.valid ? 'bg-green-500' : 'bg-red-500'} text-xs font-medium`}>
+                      {icon.valid ? 'Valid' : 'Invalid'}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {confirmPurgeIcons ? (
+              <div className="mt-4 p-4 bg-red-900/20 border border-red-700/50 rounded-lg">
+                <p className="text-sm text-red-200 mb-3">
+                  Remove {unusedIcons.length} icon(s) that no scanned shortcut or installed game uses? Shortcuts in folders that were not scanned may still point at them. A backup is kept in History.
+                </p>
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => setConfirmPurgeIcons(false)}
+                    disabled={iconCacheBusy !== null}
+                    className="flex-1 px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors font-medium"
+                  >
+                    Back
+                  </button>
+                  <button
+                    onClick={purgeUnreferencedIcons}
+                    disabled={iconCacheBusy !== null}
+                    className="flex-1 px-6 py-3 bg-red-600 hover:bg-red-700 disabled:opacity-50 rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
+                  >
+                    {iconCacheBusy === 'purge' && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Purge
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="mt-4 flex gap-3">
+                <button
+                  onClick={verifyIconCache}
+                  disabled={isVerifyingIcons || iconCacheBusy !== null}
+                  className="flex-1 px-4 py-3 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg transition-colors font-medium"
+                >
+                  Verify All
+                </button>
+                <button
+                  onClick={redownloadInvalidIcons}
+                  disabled={repairableIcons.length === 0 || isVerifyingIcons || iconCacheBusy !== null}
+                  className="flex-1 px-4 py-3 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
+                >
+                  {iconCacheBusy === 'redownload' && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Re-download {repairableIcons.length} Invalid
+                </button>
+                <button
+                  onClick={() => setConfirmPurgeIcons(true)}
+                  disabled={unusedIcons.length === 0 || isVerifyingIcons || iconCacheBusy !== null}
+                  className="flex-1 px-4 py-3 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg transition-colors font-medium"
+                >
+                  Purge {unusedIcons.length} Unused
                 </button>
               </div>
+            )}
+          </div>
+        </Modal>
+      )}
+
+      {/* Library Audit Modal */}
+      {showAudit && (
+        <Modal label="Library Audit" onClose={() => setShowAudit(false)}>
+          <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-2xl border border-gray-600 p-6 max-w-3xl w-full shadow-2xl max-h-[80vh] flex flex-col">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <div className="p-3 rounded-xl bg-blue-500/20">
+                  <ClipboardList className="w-6 h-6 text-blue-400" />
+                </div>
+                <div>
+                  <h3 className="text-xl font-bold">Library Audit</h3>
+                  <p className="text-sm text-gray-400">
+                    {isAuditing ? 'Checking every library...' : `${auditEntries.length} issue(s) found`}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => setShowAudit(false)}
+                aria-label="Close"
+                className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar space-y-5">
+              {isAuditing ? (
+                <div className="flex items-center justify-center py-10 text-gray-400">
+                  <Loader2 className="w-6 h-6 animate-spin" />
+                </div>
+              ) : AUDIT_SECTIONS.map(section => {
+                const entries = auditEntries.filter(e => e.kind === section.kind);
+                return (
+                  <div key={section.kind}>
+                    <h4 className="font-semibold text-sm mb-2">
+                      {section.title} ({entries.length})
+                      {section.kind === 'orphaned_folder' && entries.length > 0 && (
+                        <span className="text-gray-400 font-normal"> • {formatSize(entries.reduce((total, e) => total + e.size_on_disk, 0))}</span>
+                      )}
+                    </h4>
+                    {entries.length === 0 ? (
+                      <p className="text-xs text-gray-500">{section.empty}</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {entries.map(entry => (
+                          <div key={`${entry.kind}:${entry.path}`} className="p-3 rounded-lg border bg-gray-900/50 border-gray-700 flex items-center justify-between gap-3">
+                            <div className="flex-1 min-w-0">
+                              <p className="font-medium text-sm truncate">
+                                {entry.name || entry.app_id}
+                                {entry.app_id && <span className="text-gray-500 font-normal"> • {entry.app_id}</span>}
+                                {entry.kind === 'orphaned_folder' && <span className="text-gray-500 font-normal"> • {formatSize(entry.size_on_disk)}</span>}
+                              </p>
+                              <p className="text-xs text-gray-400 truncate" title={entry.path}>{entry.path}</p>
+                              <p className="text-xs text-gray-500">{entry.detail}</p>
+                            </div>
+                            <div className="flex gap-2 flex-shrink-0">
+                              <button
+                                onClick={() => openAuditEntry(entry)}
+                                title="Open in file manager"
+                                className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+                              >
+                                <FolderOpen className="w-4 h-4" />
+                              </button>
+                              {entry.kind === 'missing_folder' && (
+                                <button
+                                  onClick={() => reinstallAuditEntry(entry)}
+                                  title="Reinstall through Steam"
+                                  className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+                                >
+                                  <Download className="w-4 h-4" />
+                                </button>
+                              )}
+                              {entry.kind === 'orphaned_folder' && (
+                                <button
+                                  onClick={() => quarantineAuditEntry(entry)}
+                                  disabled={auditBusyPath !== null || isProcessing}
+                                  title="Move to quarantine"
+                                  className="p-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg transition-colors"
+                                >
+                                  {auditBusyPath === entry.path ? <Loader2 className="w-4 h-4 animate-spin" /> : <Archive className="w-4 h-4" />}
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="mt-4 flex gap-3">
+              <button
+                onClick={runAudit}
+                disabled={isAuditing}
+                className="flex-1 px-6 py-3 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg transition-colors font-medium"
+              >
+                Run Again
+              </button>
+              <button
+                onClick={() => setShowAudit(false)}
+                className="flex-1 px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 rounded-lg transition-all font-medium shadow-lg"
+              >
+                Close
+              </button>
             </div>
+          </div>
+        </Modal>
+      )}
 
-            {/* Deep Repair Bar */}
-            <div className="p-4 rounded-xl bg-gradient-to-r from-gray-800 to-gray-900 border border-gray-700 flex items-center justify-between">
-              <div className="flex items-center gap-4">
-                <button
-                  onClick={selectAll}
-                  disabled={filteredGames.length === 0}
-                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-600 rounded-lg transition-colors text-sm font-medium"
-                >
-                  {selectedGames.size === filteredGames.length ? 'Deselect All' : 'Select All'}
-                </button>
+      {/* History Modal */}
+      {showHistory && (
+        <Modal label="History" onClose={() => setShowHistory(false)}>
+          <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-2xl border border-gray-600 p-6 max-w-2xl w-full shadow-2xl max-h-[80vh] flex flex-col">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <div className="p-3 rounded-xl bg-blue-500/20">
+                  <History className="w-6 h-6 text-blue-400" />
+                </div>
                 <div>
-                  <span className="text-gray-400 text-sm">
-                    {selectedGames.size} of {filteredGames.length} selected
-                  </span>
-                  <p className="text-xs text-gray-500">For missing shortcuts or broken paths</p>
+                  <h3 className="text-xl font-bold">History</h3>
+                  <p className="text-sm text-gray-400">
+                    {changeSets.length} run(s) • {formatSize(changeSets.reduce((total, c) => total + c.size, 0))} of backups
+                  </p>
                 </div>
               </div>
               <button
-                onClick={() => setShowConfirmModal(true)}
-                disabled={selectedGames.size === 0 || isProcessing || isQuickFixing}
-                className="px-6 py-2.5 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-600 rounded-lg transition-all flex items-center gap-2 font-medium disabled:cursor-not-allowed shadow-lg"
+                onClick={() => setShowHistory(false)}
+                aria-label="Close"
+                className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
               >
-                <Play className="w-4 h-4" />
-                Deep Repair
+                <X className="w-5 h-5" />
               </button>
             </div>
-          </div>
 
-          {/* Current Processing Status */}
-          {currentProcessing && (
-            <div className="mb-4 p-6 rounded-2xl bg-gradient-to-br from-blue-900/30 to-purple-900/30 border border-blue-700/50 shadow-xl">
-              <div className="flex items-center justify-between mb-4">
-                <div className="flex items-center gap-3">
-                  <Loader2 className="w-6 h-6 text-blue-400 animate-spin" />
-                  <div>
-                    <h3 className="font-semibold text-lg">{currentProcessing.game.name}</h3>
-                    <p className="text-sm text-gray-400">{currentProcessing.step}</p>
+            <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2">
+              {changeSets.length === 0 ? (
+                <p className="text-center text-gray-500 py-10">Nothing has been changed yet.</p>
+              ) : changeSets.map(changeSet => (
+                <div key={changeSet.id} className="p-4 rounded-lg border bg-gray-900/50 border-gray-700">
+                  <div className="flex items-center justify-between gap-3">
+                    <button
+                      onClick={() => setExpandedChangeSet(expandedChangeSet === changeSet.id ? null : changeSet.id)}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <div className="flex items-center gap-2 mb-1">
+                        <ChevronDown className={`w-4 h-4 text-gray-400 transition-transform ${expandedChangeSet === changeSet.id ? '' : '-rotate-90'}`} />
+                        <h4 className="font-semibold text-sm">{changeSet.label}</h4>
+                        {changeSet.undone_at && (
+                          <span className="px-2 py-0.5 rounded-full bg-gray-600 text-xs font-medium">Undone</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-400">
+                        {new Date(changeSet.created_at * 1000).toLocaleString()} • {changeSet.changes.length} change(s) • {formatSize(changeSet.size)}
+                      </p>
+                    </button>
+                    {!changeSet.undone_at && (
+                      <button
+                        onClick={() => undoChangeSet(changeSet)}
+                        disabled={undoingChangeSet !== null || isProcessing || isQuickFixing}
+                        className="px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg transition-colors text-xs font-medium flex items-center gap-1.5"
+                      >
+                        {undoingChangeSet === changeSet.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Undo2 className="w-3.5 h-3.5" />}
+                        Undo
+                      </button>
+                    )}
                   </div>
+                  {expandedChangeSet === changeSet.id && (
+                    <div className="mt-3 space-y-1 text-xs font-mono">
+                      {changeSet.changes.map((change, index) => (
+                        <p key={index} className="text-gray-400 break-all">
+                          {change.action === 'renamed'
+                            ? <><span className="text-blue-400">renamed</span> {change.from} → {change.to}</>
+                            : <><span className={change.action === 'created' ? 'text-green-400' : change.action === 'deleted' ? 'text-red-400' : 'text-yellow-400'}>{change.action}</span> {change.path}</>}
+                        </p>
+                      ))}
+                    </div>
+                  )}
                 </div>
-                <span className="text-2xl font-bold text-blue-400">{currentProcessing.game.progress}%</span>
-              </div>
-              <div className="w-full bg-gray-800 rounded-full h-2 overflow-hidden">
-                <div 
-                  className="h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-500"
-                  style={{ width: `${currentProcessing.game.progress}%` }}
-                />
-              </div>
+              ))}
             </div>
-          )}
 
-          {/* Games List */}
-          {filteredGames.length === 0 ? (
-            <div className="text-center py-20">
-              <Package className="w-16 h-16 text-gray-700 mx-auto mb-4" />
-              <p className="text-gray-500 text-lg">
-                {games.length === 0 ? 'No games found. Check your Steam path in settings.' : 'No games match your filters.'}
-              </p>
+            <div className="mt-4 flex gap-3">
+              <button
+                onClick={pruneBackups}
+                className="flex-1 px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors font-medium"
+              >
+                Prune Old Backups
+              </button>
+              <button
+                onClick={() => setShowHistory(false)}
+                className="flex-1 px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 rounded-lg transition-all font-medium shadow-lg"
+              >
+                Close
+              </button>
             </div>
-          ) : (
-            <div className="space-y-3 pb-4">
-              {filteredGames.map(game => (
-                <div
-                  key={game.app_id}
-                  onClick={() => !isProcessing && toggleGame(game.app_id)}
-                  className={`group p-5 rounded-xl border transition-all cursor-pointer ${
-                    selectedGames.has(game.app_id)
-                      ? 'bg-gradient-to-r from-blue-900/30 to-purple-900/30 border-blue-500/50'
-                      : 'bg-gradient-to-br from-gray-800 to-gray-900 border-gray-700 hover:border-gray-600 hover:scale-[1.005]'
-                  }`}
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-4 flex-1">
-                      <input
-                        type="checkbox"
-                        checked={selectedGames.has(game.app_id)}
-                        onChange={() => {}}
-                      />
-                      <div className="flex-1">
-                        <h3 className="font-semibold text-lg group-hover:text-blue-400 transition-colors">{game.name}</h3>
-                        <div className="flex items-center gap-4 mt-1">
-                          <span className="text-sm text-gray-400">AppID: {game.app_id}</span>
-                          <span className="text-sm text-gray-500">{game.path}</span>
-                        </div>
-                        {game.status === 'processing' && game.progress !== undefined && (
-                          <div className="mt-2">
-                            <div className="w-full bg-gray-700 rounded-full h-1.5 overflow-hidden">
-                              <div 
-                                className="h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-300"
-                                style={{ width: `${game.progress}%` }}
-                              />
-                            </div>
-                          </div>
-                        )}
-                      </div>
+          </div>
+        </Modal>
+      )}
+
+      {/* Unfinished Deep Repair Modal */}
+      {showUnfinishedRepairs && unfinishedRepairs.length > 0 && !rollbackConflict && (
+        <Modal label="Unfinished Deep Repair" onClose={() => setShowUnfinishedRepairs(false)}>
+          <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-2xl border border-yellow-600 p-6 max-w-2xl w-full shadow-2xl max-h-[80vh] flex flex-col">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <div className="p-3 rounded-xl bg-yellow-500/20">
+                  <AlertTriangle className="w-6 h-6 text-yellow-400" />
+                </div>
+                <div>
+                  <h3 className="text-xl font-bold">Unfinished Deep Repair</h3>
+                  <p className="text-sm text-gray-400">The app was closed before these repairs finished</p>
+                </div>
+              </div>
+              <button
+                onClick={() => setShowUnfinishedRepairs(false)}
+                aria-label="Close"
+                className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2">
+              {unfinishedRepairs.map(journal => (
+                <div key={journal.app_id} className="p-4 rounded-lg border bg-gray-900/50 border-gray-700">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex-1 min-w-0">
+                      <h4 className="font-semibold text-sm mb-1">{journal.name}</h4>
+                      <p className="text-xs text-gray-400">
+                        {REPAIR_STEP_LABELS[journal.step]} • Started {new Date(journal.started_at * 1000).toLocaleString()}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-0.5 truncate" title={journal.temp_exists ? journal.temp_path : journal.original_path}>
+                        {journal.temp_exists ? `Renamed folder: ${journal.temp_path}` : `Folder: ${journal.original_path}`}
+                      </p>
+                      {journal.temp_exists && journal.original_exists && (
+                        <p className="text-xs text-yellow-400 mt-0.5">The original folder name has been recreated</p>
+                      )}
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => rollbackRepair(journal)}
+                        disabled={isProcessing}
+                        className="px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg transition-colors text-xs font-medium"
+                      >
+                        Roll Back
+                      </button>
+                      <button
+                        onClick={() => resumeRepair(journal)}
+                        disabled={isProcessing}
+                        className="px-3 py-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:opacity-50 rounded-lg transition-all text-xs font-medium"
+                      >
+                        Resume
+                      </button>
                     </div>
-                    {getStatusBadge(game.status)}
                   </div>
                 </div>
               ))}
             </div>
-          )}
-        </div>
-      </div>
-
-      {/* Info Footer - Fixed at bottom */}
-      <div className="flex-shrink-0 border-t border-gray-800 bg-slate-900/50">
-        <div className="px-6 py-3">
-          <div className="flex gap-3">
-            <Info className="w-4 h-4 text-blue-400 flex-shrink-0 mt-0.5" />
-            <div className="text-xs text-blue-200/80">
-              <p className="font-medium mb-0.5 text-blue-300">💡 Quick Fix: Missing icons? Use this! | Deep Repair: Shortcuts don't exist at all? Use this!</p>
-            </div>
           </div>
-        </div>
-      </div>
+        </Modal>
+      )}
 
-      {/* Start Confirmation Modal */}
-      {showConfirmModal && (
-        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-          <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-2xl border border-gray-700 p-6 max-w-md w-full shadow-2xl">
+      {/* Rollback Conflict Modal */}
+      {rollbackConflict && (
+        <Modal
+          label="Folder Already Exists"
+          onClose={() => setRollbackConflict(null)}
+          onConfirm={restoreAsName.trim() ? () => rollbackRepair(rollbackConflict, restoreAsName) : undefined}
+        >
+          <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-2xl border border-red-600 p-6 max-w-md w-full shadow-2xl animate-in">
             <div className="flex items-center gap-3 mb-4">
-              <div className="p-3 rounded-xl bg-yellow-500/20">
-                <AlertCircle className="w-6 h-6 text-yellow-400" />
+              <div className="p-3 rounded-xl bg-red-500/20">
+                <AlertTriangle className="w-6 h-6 text-red-400" />
               </div>
-              <h3 className="text-xl font-bold">Confirm Deep Repair</h3>
-            </div>
-            <div className="mb-4 p-3 rounded-lg bg-blue-500/10 border border-blue-500/30">
-              <p className="text-sm text-blue-300">
-                ⚡ <strong>Already tried Quick Fix?</strong> Deep Repair is for when shortcuts don't exist at all.
-              </p>
+              <h3 className="text-xl font-bold">Folder Already Exists</h3>
             </div>
-            <p className="text-gray-300 mb-6">
-              You're about to deep repair <span className="font-bold text-blue-400">{selectedGames.size} game(s)</span>. This will:
+            <p className="text-gray-300 mb-4">
+              <span className="font-mono text-sm break-all">{rollbackConflict.original_path}</span> exists again, so the renamed folder can't go back under its old name. Nothing will be overwritten.
             </p>
-            <ol className="space-y-2 mb-6 text-sm text-gray-400">
-              <li className="flex items-start gap-2">
-                <span className="text-blue-400 font-bold">1.</span>
-                <span>Temporarily rename each game folder</span>
-              </li>
-              <li className="flex items-start gap-2">
-                <span className="text-blue-400 font-bold">2.</span>
-                <span>Open Steam to uninstall (you'll need to confirm)</span>
-              </li>
-              <li className="flex items-start gap-2">
-                <span className="text-blue-400 font-bold">3.</span>
-                <span>Restore original folder names</span>
-              </li>
-              <li className="flex items-start gap-2">
-                <span className="text-blue-400 font-bold">4.</span>
-                <span>Open Steam to reinstall (you'll need to confirm)</span>
-              </li>
-            </ol>
+            <label className="block text-sm text-gray-400 mb-2">Restore as</label>
+            <input
+              type="text"
+              value={restoreAsName}
+              onChange={(e) => setRestoreAsName(e.target.value)}
+              className="w-full px-4 py-3 mb-6 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+            />
             <div className="flex gap-3">
               <button
-                onClick={() => setShowConfirmModal(false)}
+                onClick={() => setRollbackConflict(null)}
                 className="flex-1 px-4 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors font-medium"
               >
                 Cancel
               </button>
               <button
-                onClick={startProcess}
-                className="flex-1 px-4 py-3 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 rounded-lg transition-all font-medium shadow-lg"
+                onClick={() => keepRenamedFolder(rollbackConflict)}
+                className="flex-1 px-4 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors font-medium"
               >
-                Let's Go!
+                Leave Renamed
+              </button>
+              <button
+                onClick={() => rollbackRepair(rollbackConflict, restoreAsName)}
+                disabled={!restoreAsName.trim()}
+                className="flex-1 px-4 py-3 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-600 rounded-lg transition-all font-medium"
+              >
+                Restore
               </button>
             </div>
           </div>
-        </div>
+        </Modal>
       )}
 
       {/* User Confirmation Modal (during process) */}
       {confirmationModal && (
-        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+        <Modal label={confirmationModal.title} onConfirm={confirmationModal.onConfirm}>
           <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-2xl border border-blue-600 p-6 max-w-md w-full shadow-2xl animate-in">
             <div className="flex items-center gap-3 mb-4">
               <div className="p-3 rounded-xl bg-blue-500/20">
@@ -803,40 +3141,285 @@ function App() {
             <p className="text-gray-300 mb-6 text-lg">
               {confirmationModal.message}
             </p>
+            {confirmationModal.watching !== undefined && (
+              <div className="flex items-center gap-2 mb-4 text-sm text-gray-400">
+                {confirmationModal.watching ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin text-blue-400" />
+                    Watching Steam...
+                  </>
+                ) : (
+                  <>
+                    <Clock className="w-4 h-4 text-yellow-400" />
+                    Steam didn't report back in time. Click Continue once it's done.
+                  </>
+                )}
+              </div>
+            )}
             <button
               onClick={confirmationModal.onConfirm}
               className="w-full px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 rounded-lg transition-all font-medium shadow-lg text-lg"
             >
-              Continue
+              {confirmationModal.watching ? 'Continue Manually' : 'Continue'}
             </button>
           </div>
-        </div>
+        </Modal>
       )}
 
-      {/* Quick Fix Results Modal */}
-      {showQuickFixResults && (
-        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      {/* Shortcut Diagnosis Modal */}
+      {showDiagnosis && (
+        <Modal
+          label="Shortcut Scan"
+          onClose={() => setShowDiagnosis(false)}
+          onConfirm={selectedShortcuts.size > 0 ? quickFixShortcuts : undefined}
+        >
           <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-2xl border border-green-600 p-6 max-w-2xl w-full shadow-2xl max-h-[80vh] flex flex-col">
             <div className="flex items-center justify-between mb-4">
               <div className="flex items-center gap-3">
                 <div className="p-3 rounded-xl bg-green-500/20">
-                  <Sparkles className="w-6 h-6 text-green-400" />
+                  <Search className="w-6 h-6 text-green-400" />
                 </div>
                 <div>
-                  <h3 className="text-xl font-bold">Quick Fix Results</h3>
+                  <h3 className="text-xl font-bold">Shortcut Scan</h3>
                   <p className="text-sm text-gray-400">
-                    {quickFixResults.filter(r => r.success).length} fixed, {quickFixResults.filter(r => !r.success).length} failed
+                    {diagnoses.filter(d => d.health === 'healthy').length} healthy, {diagnoses.filter(d => d.health !== 'healthy').length} with problems
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => setShowDiagnosis(false)}
+                aria-label="Close"
+                className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar custom-scrollbar-green space-y-2">
+              {diagnoses.map(diagnosis => {
+                const label = SHORTCUT_HEALTH_LABELS[diagnosis.health];
+                const selectable = diagnosis.health !== 'malformed';
+                return (
+                  <label
+                    key={diagnosis.path}
+                    className={`block p-4 rounded-lg border transition-colors ${selectable ? 'cursor-pointer' : 'opacity-70'} ${
+                      selectedShortcuts.has(diagnosis.path)
+                        ? 'bg-green-900/20 border-green-700/50'
+                        : 'bg-gray-800/50 border-gray-700'
+                    }`}
+                  >
+                    <div className="flex items-start gap-3">
+                      <input
+                        type="checkbox"
+                        checked={selectedShortcuts.has(diagnosis.path)}
+                        disabled={!selectable}
+                        onChange={() => toggleShortcut(diagnosis.path)}
+                      />
+                      <div className="flex-1">
+                        <div className="flex items-center justify-between gap-2 mb-1">
+                          <h4 className="font-semibold text-sm">{diagnosis.name}</h4>
+                          <span className={`px-2 py-0.5 rounded-full ${label.color} text-xs font-medium`}>{label.text}</span>
+                        </div>
+                        <p className="text-xs text-gray-400">
+                          {diagnosis.game_id && `Game ID: ${diagnosis.game_id} • `}Location: {diagnosis.location}
+                        </p>
+                        {diagnosis.detail && (
+                          <p className="text-xs text-gray-500 mt-0.5">{diagnosis.detail}</p>
+                        )}
+                      </div>
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+
+            <div className="mt-4 flex gap-3">
+              <button
+                onClick={() => setShowDiagnosis(false)}
+                className="flex-1 px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={quickFixShortcuts}
+                disabled={selectedShortcuts.size === 0}
+                className="flex-1 px-6 py-3 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 disabled:from-gray-600 disabled:to-gray-600 disabled:cursor-not-allowed rounded-lg transition-all font-medium shadow-lg"
+              >
+                Repair {selectedShortcuts.size} Selected
+              </button>
+            </div>
+          </div>
+        </Modal>
+      )}
+
+      {/* Shortcut Cleanup Modal */}
+      {cleanupGroups && (
+        <Modal
+          label="Clean Up Shortcuts"
+          onClose={isCleaningUp ? undefined : confirmCleanup ? () => setConfirmCleanup(false) : () => setCleanupGroups(null)}
+          onConfirm={confirmCleanup && !isCleaningUp ? cleanUpShortcuts : undefined}
+        >
+          <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-2xl border border-gray-600 p-6 max-w-2xl w-full shadow-2xl max-h-[80vh] flex flex-col">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <div className="p-3 rounded-xl bg-red-500/20">
+                  <Trash2 className="w-6 h-6 text-red-400" />
+                </div>
+                <div>
+                  <h3 className="text-xl font-bold">Clean Up Shortcuts</h3>
+                  <p className="text-sm text-gray-400">
+                    {cleanupGroups.filter(g => g.reason === 'dead').length} uninstalled game(s), {cleanupGroups.filter(g => g.reason === 'duplicate').length} game(s) with duplicates
                   </p>
                 </div>
               </div>
               <button
-                onClick={() => setShowQuickFixResults(false)}
+                onClick={() => setCleanupGroups(null)}
+                disabled={isCleaningUp}
+                aria-label="Close"
                 className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
               >
                 <X className="w-5 h-5" />
               </button>
             </div>
 
+            <div className="flex-1 overflow-y-auto custom-scrollbar space-y-3">
+              {cleanupGroups.map(group => (
+                <div key={group.game_id} className="p-4 rounded-lg border bg-gray-900/50 border-gray-700">
+                  <div className="flex items-center justify-between gap-2 mb-2">
+                    <h4 className="font-semibold text-sm">
+                      {games.find(g => g.app_id === group.game_id)?.name ?? group.shortcuts[0].name}
+                      <span className="text-gray-500 font-normal"> • {group.game_id}</span>
+                    </h4>
+                    <span className={`px-2 py-0.5 rounded-full ${group.reason === 'dead' ? 'bg-red-500' : 'bg-yellow-500'} text-xs font-medium`}>
+                      {group.reason === 'dead' ? 'Not installed' : `${group.shortcuts.length} shortcuts`}
+                    </span>
+                  </div>
+                  <div className="space-y-1.5">
+                    {group.shortcuts.map(diagnosis => (
+                      <label key={diagnosis.path} className="flex items-start gap-3 text-xs cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={cleanupSelected.has(diagnosis.path)}
+                          onChange={() => toggleCleanupShortcut(diagnosis.path)}
+                          className="mt-0.5"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-gray-300">
+                            {diagnosis.location}
+                            {group.keep === diagnosis.path && <span className="text-green-400"> • kept</span>}
+                            {diagnosis.health !== 'healthy' && diagnosis.health !== 'not_installed' && (
+                              <span className="text-yellow-400"> • {SHORTCUT_HEALTH_LABELS[diagnosis.health].text}</span>
+                            )}
+                          </p>
+                          <p className="text-gray-500 truncate" title={diagnosis.path}>{diagnosis.path}</p>
+                        </div>
+                        {group.reason === 'duplicate' && group.keep !== diagnosis.path && (
+                          <button
+                            onClick={e => { e.preventDefault(); keepCleanupShortcut(group, diagnosis.path); }}
+                            className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+                          >
+                            Keep this one
+                          </button>
+                        )}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {confirmCleanup ? (
+              <div className="mt-4 p-4 bg-red-900/20 border border-red-700/50 rounded-lg">
+                <p className="text-sm text-red-200 mb-3">
+                  {cleanupAction === 'delete' ? 'Delete' : 'Move'} {cleanupSelected.size} shortcut(s){cleanupAction === 'quarantine' && ' to the quarantine folder'}? A backup is kept and the change can be undone from History.
+                </p>
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => setConfirmCleanup(false)}
+                    disabled={isCleaningUp}
+                    className="flex-1 px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors font-medium"
+                  >
+                    Back
+                  </button>
+                  <button
+                    onClick={cleanUpShortcuts}
+                    disabled={isCleaningUp}
+                    className="flex-1 px-6 py-3 bg-red-600 hover:bg-red-700 disabled:opacity-50 rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
+                  >
+                    {isCleaningUp && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Confirm
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="mt-4 flex gap-3">
+                <select
+                  value={cleanupAction}
+                  onChange={e => setCleanupAction(e.target.value as CleanupAction)}
+                  className="px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white text-sm cursor-pointer"
+                >
+                  <option value="quarantine">Move to quarantine</option>
+                  <option value="delete">Delete</option>
+                </select>
+                <button
+                  onClick={() => setCleanupGroups(null)}
+                  className="flex-1 px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => setConfirmCleanup(true)}
+                  disabled={cleanupSelected.size === 0}
+                  className="flex-1 px-6 py-3 bg-gradient-to-r from-red-600 to-rose-600 hover:from-red-700 hover:to-rose-700 disabled:from-gray-600 disabled:to-gray-600 disabled:cursor-not-allowed rounded-lg transition-all font-medium shadow-lg"
+                >
+                  Remove {cleanupSelected.size} Selected
+                </button>
+              </div>
+            )}
+          </div>
+        </Modal>
+      )}
+
+      {/* Quick Fix Results Modal */}
+      {showQuickFixResults && (
+        <Modal
+          label={isQuickFixing ? 'Fixing Shortcuts' : 'Quick Fix Results'}
+          onClose={isQuickFixing ? undefined : () => setShowQuickFixResults(false)}
+        >
+          <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-2xl border border-green-600 p-6 max-w-2xl w-full shadow-2xl max-h-[80vh] flex flex-col">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <div className="p-3 rounded-xl bg-green-500/20">
+                  <Sparkles className="w-6 h-6 text-green-400" />
+                </div>
+                <div>
+                  <h3 className="text-xl font-bold">{isQuickFixing ? 'Fixing Shortcuts...' : 'Quick Fix Results'}</h3>
+                  <p className="text-sm text-gray-400">
+                    {quickFixResults.filter(r => r.success).length} fixed, {quickFixResults.filter(r => !r.success).length} failed
+                    {quickFixProgress && ` • ${quickFixProgress.completed} of ${quickFixProgress.total}`}
+                  </p>
+                </div>
+              </div>
+              {!isQuickFixing && (
+                <button
+                  onClick={() => setShowQuickFixResults(false)}
+                  aria-label="Close"
+                  className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              )}
+            </div>
+
+            {quickFixProgress && (
+              <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden mb-4">
+                <div
+                  className="h-full bg-gradient-to-r from-green-500 to-emerald-500 transition-all duration-300"
+                  style={{ width: `${quickFixProgress.total > 0 ? (quickFixProgress.completed / quickFixProgress.total) * 100 : 0}%` }}
+                />
+              </div>
+            )}
+
             <div className="flex-1 overflow-y-auto custom-scrollbar custom-scrollbar-green space-y-2">
               {quickFixResults.map((result, index) => (
                 <div
@@ -861,6 +3444,9 @@ function App() {
                         <div className="space-y-0.5">
                           <p className="text-xs text-gray-400">Game ID: {result.game_id}</p>
                           <p className="text-xs text-gray-500">Location: {result.location}</p>
+                          {result.source && (
+                            <p className="text-xs text-gray-500">Icon source: {ICON_SOURCE_LABELS[result.source]}</p>
+                          )}
                         </div>
                       ) : (
                         <p className="text-xs text-red-400">{result.error}</p>
@@ -871,14 +3457,34 @@ function App() {
               ))}
             </div>
 
-            <button
-              onClick={() => setShowQuickFixResults(false)}
-              className="mt-4 w-full px-6 py-3 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 rounded-lg transition-all font-medium shadow-lg"
-            >
-              Close
-            </button>
+            {isQuickFixing ? (
+              <button
+                onClick={cancelQuickFix}
+                disabled={isCancellingQuickFix}
+                className="mt-4 w-full px-6 py-3 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
+              >
+                <Loader2 className="w-4 h-4 animate-spin" />
+                {isCancellingQuickFix ? 'Stopping...' : 'Cancel'}
+              </button>
+            ) : (
+              <div className="mt-4 flex gap-3">
+                <button
+                  onClick={exportReport}
+                  className="flex-1 px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
+                >
+                  <FileDown className="w-4 h-4" />
+                  Export Report
+                </button>
+                <button
+                  onClick={() => setShowQuickFixResults(false)}
+                  className="flex-1 px-6 py-3 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 rounded-lg transition-all font-medium shadow-lg"
+                >
+                  Close
+                </button>
+              </div>
+            )}
           </div>
-        </div>
+        </Modal>
       )}
     </div>
   );